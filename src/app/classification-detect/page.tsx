@@ -1,54 +1,73 @@
 'use client'
 
-import { useState } from 'react'
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import Image from 'next/image'
-import { Upload, Target, AlertCircle } from 'lucide-react'
+import { Target, AlertCircle, AlertTriangle, Pencil } from 'lucide-react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import { DotPattern } from '@/components/ui/dot-pattern'
 import { useTheme } from '@/components/ThemeProvider'
+import { BatchQueue } from '@/components/BatchQueue'
+import { InstanceTable } from '@/components/InstanceTable'
+import { CalibrationManager } from '@/components/CalibrationManager'
+import { DifferentialCard } from '@/components/DifferentialCard'
+import { LabReport } from '@/components/LabReport'
+import { PagePicker } from '@/components/PagePicker'
+import { QualityReportCard } from '@/components/QualityReportCard'
+import { StainNormalizationPanel } from '@/components/StainNormalizationPanel'
+import { ScaleBar } from '@/components/ScaleBar'
+import { SegmentationOverlay } from '@/components/SegmentationOverlay'
+import { MaskEditor } from '@/components/MaskEditor'
+import { MaskExportMenu } from '@/components/MaskExportMenu'
+import { SlideConsensusCard } from '@/components/SlideConsensusCard'
+import { useCalibration } from '@/hooks/use-calibration'
+import { useHistory } from '@/hooks/use-history'
+import { useStainReference } from '@/hooks/use-stain-reference'
+import { useUploadQueue } from '@/hooks/use-upload-queue'
+import { formatSquareMicrons } from '@/lib/calibration'
+import { combineFields } from '@/lib/consensus'
+import { DEFAULT_DIFFERENTIAL_SETTINGS, buildDifferential, type DifferentialSettings } from '@/lib/differential'
+import { extractInstances, summarizeInstances } from '@/lib/instances'
+import { toReviewedSegmentation, type MaskReview } from '@/lib/mask-review'
+import { UploadDropzone } from '@/components/UploadDropzone'
+import {
+  DEFAULT_MAX_DIMENSION,
+  MAX_DIMENSION_OPTIONS,
+  prepareImage,
+  type MaxDimension,
+  type PreparedImage,
+} from '@/lib/preprocess'
+import { QualityGateError, checkQuality } from '@/lib/quality'
+import { normalizePrepared } from '@/lib/stain-normalization'
+import { resolveUploads, type DecodedPage, type PageStack } from '@/lib/image-decode'
+import {
+  DEFAULT_MASK_LAYERS,
+  classColor,
+  decodeMask,
+  renderSegmentationImage,
+  requestSegmentation,
+  segmentationClasses,
+  type CategorizeImageResponse,
+  type MaskLayerSettings,
+  type SegmentationMask,
+} from '@/lib/segmentation'
 
-// 40x UNET / Categorize API response types (snake_case from API)
-interface ClassStatistics {
-  class_id: number
-  avg_confidence: number
-  max_confidence: number
-  min_confidence: number
-  percentage: number
-  pixel_count: number
-}
-
-interface SegmentationResults {
-  class_statistics: Record<string, ClassStatistics>
-  dominant_class: string
-  dominant_confidence: number
-  dominant_percentage: number
-  overall_confidence: number
-}
-
-interface CategorizeImageResponse {
-  success: boolean
-  timestamp: string
-  image_info?: {
-    width: number
-    height: number
-    filename: string
-    format: string
+// Reports sizes and pixel counts for the original image rather than the resampled upload
+function toOriginalScale(data: CategorizeImageResponse, prepared: PreparedImage): CategorizeImageResponse {
+  if (prepared.scale === 1 && prepared.orientation === 1) return data
+  const areaFactor = 1 / (prepared.scale * prepared.scale)
+  const classStatistics = Object.fromEntries(
+    Object.entries(data.segmentation_results.class_statistics).map(([name, stats]) => [
+      name,
+      { ...stats, pixel_count: stats.pixel_count && Math.round(stats.pixel_count * areaFactor) },
+    ])
+  )
+  return {
+    ...data,
+    image_info: data.image_info && { ...data.image_info, width: prepared.width, height: prepared.height },
+    segmentation_results: { ...data.segmentation_results, class_statistics: classStatistics },
+    preprocessing: { scale: prepared.scale, orientation: prepared.orientation },
   }
-  class_legend?: Record<string, string>
-  overlay_image: string  // data URI e.g. "data:image/jpeg;base64,..."
-  overlay_path?: string
-  segmentation_results: SegmentationResults
-}
-
-function legendColorFromName(name: string): string {
-  const n = name.toLowerCase()
-  if (n.includes('blue')) return '#3b82f6'
-  if (n.includes('red')) return '#ef4444'
-  if (n.includes('yellow')) return '#eab308'
-  if (n.includes('green')) return '#22c55e'
-  if (n.includes('orange')) return '#f97316'
-  return '#6b7280'
 }
 
 // Helper function to split class name into abbreviation and full name
@@ -62,54 +81,213 @@ function splitClassName(className: string): { abbreviation: string; fullName: st
   return { abbreviation: className, fullName: '' }
 }
 
+const BATCH_CONCURRENCY = 3
+
 export default function ClassificationDetectPage() {
   const { isDarkMode } = useTheme()
-  const [selectedFile, setSelectedFile] = useState<File | null>(null)
-  const [previewUrl, setPreviewUrl] = useState<string>('')
-  const [loading, setLoading] = useState(false)
-  const [results, setResults] = useState<CategorizeImageResponse | null>(null)
+  const [activeId, setActiveId] = useState<string | null>(null)
   const [error, setError] = useState<string>('')
+  const [maxDimension, setMaxDimension] = useState<MaxDimension>(DEFAULT_MAX_DIMENSION)
 
-  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0]
-    if (file) {
-      setSelectedFile(file)
-      setPreviewUrl(URL.createObjectURL(file))
-      setResults(null)
-      setError('')
-    }
-  }
+  // Multi-page TIFFs wait here until the user picks which pages to add as fields
+  const [pageStacks, setPageStacks] = useState<PageStack[]>([])
+  const [decoding, setDecoding] = useState(false)
 
-  const handleCategorize = async () => {
-    if (!selectedFile) {
-      setError('Please select an image first')
-      return
-    }
+  // Opt-in colour normalization; uploads stay unchanged until a reference slide is set
+  const [stainEnabled, setStainEnabled] = useState(false)
+  const stain = useStainReference()
+  const stainReference = stainEnabled ? stain.reference : null
 
-    setLoading(true)
-    setError('')
+  // µm per pixel of the active 40x profile; areas stay in pixels without one
+  const calibration = useCalibration('40x')
+  const umPerPixel = calibration.active?.umPerPixel ?? null
+  const formatArea = (pixels: number) => (umPerPixel ? formatSquareMicrons(pixels * umPerPixel * umPerPixel) : null)
 
-    const formData = new FormData()
-    formData.append('image', selectedFile)
+  // Files the user chose to analyse despite a failing quality check
+  const qualityOverrides = useRef(new WeakSet<File>())
 
-    try {
-      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/categorize`, {
-        method: 'POST',
-        body: formData,
-      })
+  // Every field of the slide is segmented on its own; the consensus is combined client-side
+  const runCategorize = useCallback(
+    async (file: File) => {
+      const prepared = await prepareImage(file, maxDimension)
+      // Quality is judged on the image as captured, before any colour correction
+      const quality = await checkQuality(prepared.blob, qualityOverrides.current.has(file))
+      const upload = stainReference ? await normalizePrepared(prepared, stainReference) : prepared
+      const data = await requestSegmentation(upload.blob, prepared.filename)
+      return {
+        ...toOriginalScale(data, prepared),
+        quality,
+        ...(stainReference ? { stainNormalization: { method: 'reinhard' as const, reference: stainReference.name } } : {}),
+      }
+    },
+    [maxDimension, stainReference]
+  )
+  const queue = useUploadQueue<CategorizeImageResponse>(runCategorize, BATCH_CONCURRENCY)
+
+  const activeItem = queue.items.find((item) => item.id === activeId) ?? queue.items[0] ?? null
+  const selectedFile = activeItem?.file ?? null
+  const previewUrl = activeItem?.previewUrl ?? ''
 
-      const data = await response.json()
+  // Reviewer-edited masks are kept per queue item with the model output they were drawn on; statistics follow the edit
+  const [maskReviews, setMaskReviews] = useState<Record<string, { result: CategorizeImageResponse; review: MaskReview }>>({})
+  const [showModelOutput, setShowModelOutput] = useState(false)
+  const reviewedResults = useMemo(() => {
+    const reviewed: Record<string, CategorizeImageResponse> = {}
+    queue.items.forEach((item) => {
+      const entry = maskReviews[item.id]
+      // An edit only applies to the run it was made on
+      if (!item.result || !entry || entry.result !== item.result) return
+      reviewed[item.id] = toReviewedSegmentation(item.result, entry.review)
+    })
+    return reviewed
+  }, [queue.items, maskReviews])
+  const modelResult = activeItem?.result ?? null
+  const reviewedResult = activeItem ? reviewedResults[activeItem.id] ?? null : null
+  const results = (!showModelOutput && reviewedResult) || modelResult
+  const loading = queue.isRunning
+  const hasPending = queue.items.some((item) => item.status === 'pending')
 
-      if (data.success && data.overlay_image) {
-        setResults(data as CategorizeImageResponse)
+  // Slide-level species call once at least two fields are done
+  const consensus = useMemo(() => {
+    const fields = queue.items.flatMap((item) => (item.result ? [(reviewedResults[item.id] ?? item.result).segmentation_results] : []))
+    return fields.length > 1 ? combineFields(fields) : null
+  }, [queue.items, reviewedResults])
+
+  // Colours stay the same for a species across fields, even where one field lacks it
+  const classInfo = useMemo(() => {
+    const ids = new Map<string, number>()
+    let legend: Record<string, string> = {}
+    queue.items.forEach((item) => {
+      if (!item.result) return
+      legend = { ...legend, ...item.result.class_legend }
+      Object.entries(item.result.segmentation_results.class_statistics).forEach(([name, stats]) => ids.set(name, stats.class_id))
+    })
+    return { ids, legend }
+  }, [queue.items])
+  const colorOf = (className: string) => classColor(className, classInfo.ids.get(className), classInfo.legend)
+
+  // Client-rendered mask layers; without a mask in the response the server overlay is shown
+  const [maskLayers, setMaskLayers] = useState<MaskLayerSettings>(DEFAULT_MASK_LAYERS)
+  const mask = useMemo(() => (results ? decodeMask(results) : null), [results])
+  const maskClasses = useMemo(() => (results ? segmentationClasses(results) : []), [results])
+  const modelMask = useMemo(() => (modelResult ? decodeMask(modelResult) : null), [modelResult])
+
+  // Mask editing; undo steps hold the edited mask, `null` being the untouched model output
+  const [editingMask, setEditingMask] = useState(false)
+  const maskHistory = useHistory<SegmentationMask | null>(null)
+
+  useEffect(() => {
+    setEditingMask(false)
+    setShowModelOutput(false)
+  }, [activeItem?.id])
+
+  const saveMaskReview = useCallback((edited: SegmentationMask | null) => {
+    const result = activeItem?.result
+    if (!activeItem || !result) return
+    setMaskReviews((prev) => {
+      const next = { ...prev }
+      if (edited) {
+        next[activeItem.id] = { result, review: { reviewed_at: new Date().toISOString(), mask: edited } }
       } else {
-        setError(data.error || data.message || 'Segmentation failed')
+        delete next[activeItem.id]
       }
-    } catch (err) {
-      setError('Failed to connect to API. Make sure the server is running.')
-      console.error(err)
+      return next
+    })
+  }, [activeItem])
+
+  const applyMaskEdit = useCallback((edited: SegmentationMask | null) => {
+    maskHistory.push(edited)
+    saveMaskReview(edited)
+  }, [maskHistory, saveMaskReview])
+
+  const undoMaskEdit = useCallback(() => {
+    const previous = maskHistory.undo()
+    if (previous !== undefined) saveMaskReview(previous)
+  }, [maskHistory, saveMaskReview])
+
+  const redoMaskEdit = useCallback(() => {
+    const next = maskHistory.redo()
+    if (next !== undefined) saveMaskReview(next)
+  }, [maskHistory, saveMaskReview])
+
+  const handleStartMaskEdit = () => {
+    maskHistory.reset(reviewedResult && activeItem ? maskReviews[activeItem.id].review.mask : null)
+    setShowModelOutput(false)
+    setEditingMask(true)
+  }
+
+  // Individual worms: connected regions of each species in the mask, linked to the instance table
+  const instances = useMemo(
+    () => (mask && results?.image_info ? extractInstances(mask, maskClasses, results.image_info.width, results.image_info.height) : null),
+    [mask, maskClasses, results]
+  )
+  const [hoveredInstanceId, setHoveredInstanceId] = useState<number | null>(null)
+  const [selectedInstanceId, setSelectedInstanceId] = useState<number | null>(null)
+  const highlightedInstanceId = hoveredInstanceId ?? selectedInstanceId
+
+  useEffect(() => {
+    setHoveredInstanceId(null)
+    setSelectedInstanceId(null)
+  }, [results])
+
+  // On-screen width of the overlay, to size the scale bar
+  const overlayRef = useRef<HTMLImageElement>(null)
+  const [overlayWidth, setOverlayWidth] = useState(0)
+  useEffect(() => {
+    const image = overlayRef.current
+    if (!image) return
+    const observer = new ResizeObserver(() => setOverlayWidth(image.clientWidth))
+    observer.observe(image)
+    return () => observer.disconnect()
+  }, [results])
+
+  const addFiles = (files: File[]) => {
+    if (files.length === 0) return
+    const added = queue.add(files)
+    setActiveId(added[0].id)
+  }
+
+  const handleFiles = async (selected: File[]) => {
+    setDecoding(true)
+    try {
+      const { files, stacks, errors } = await resolveUploads(selected, { checkSize: maxDimension === null })
+      addFiles(files)
+      setPageStacks((prev) => [...prev, ...stacks])
+      setError(errors.join(' '))
     } finally {
-      setLoading(false)
+      setDecoding(false)
+    }
+  }
+
+  const handlePagesPicked = (pages: DecodedPage[]) => {
+    addFiles(pages.map((page) => page.file))
+    setPageStacks((prev) => prev.slice(1))
+  }
+
+  const handleRemove = (id: string) => {
+    queue.remove(id)
+    if (id === activeId) setActiveId(null)
+    setMaskReviews((prev) => {
+      const next = { ...prev }
+      delete next[id]
+      return next
+    })
+  }
+
+  const handleCategorize = () => {
+    if (queue.items.length === 0) {
+      setError('Please select an image first')
+      return
+    }
+
+    setError('')
+    if (hasPending) {
+      queue.start()
+    } else {
+      // Fresh model output invalidates masks edited on the previous run
+      setMaskReviews({})
+      setEditingMask(false)
+      queue.rerunAll()
     }
   }
 
@@ -123,6 +301,13 @@ export default function ClassificationDetectPage() {
   const overallConfidence = seg?.overall_confidence ?? 0
   const hasDominantSpecies = dominantClass && dominantClass !== 'Background'
 
+  // Ranked differential; close or mixed results are held for manual review instead of naming one species
+  const [differentialSettings, setDifferentialSettings] = useState<DifferentialSettings>(DEFAULT_DIFFERENTIAL_SETTINGS)
+  const differential = useMemo(
+    () => (seg ? buildDifferential(seg.class_statistics, differentialSettings) : null),
+    [seg, differentialSettings]
+  )
+
   return (
     <main className={`min-h-screen transition-colors duration-300 ${isDarkMode ? 'bg-black' : 'bg-white'}`}>
       <DotPattern
@@ -167,19 +352,37 @@ export default function ClassificationDetectPage() {
                   </CardDescription>
                 </CardHeader>
                 <CardContent className="pt-8 space-y-8 flex-1 flex flex-col">
-                  <label className="block cursor-pointer group">
-                    <input type="file" accept="image/*" onChange={handleFileSelect} className="hidden" />
-                    <div className={`relative border-2 border-dashed ${isDarkMode ? 'border-white/30' : 'border-black/30'} rounded-2xl p-16 text-center transition-all duration-300 group-hover:${isDarkMode ? 'border-white' : 'border-black'} group-hover:${isDarkMode ? 'bg-white/5' : 'bg-black/5'} group-hover:scale-[1.02]`}>
-                      <div className={`absolute top-4 right-4 w-2 h-2 ${isDarkMode ? 'bg-white' : 'bg-black'} rounded-full opacity-0 group-hover:opacity-100 transition-opacity`}></div>
-                      <Upload className={`w-16 h-16 mx-auto mb-6 ${isDarkMode ? 'text-white/40' : 'text-black/40'} group-hover:${isDarkMode ? 'text-white' : 'text-black'} transition-all duration-300 group-hover:scale-110`} />
-                      <p className={`text-base font-semibold ${isDarkMode ? 'text-white' : 'text-black'} mb-2`}>
-                        {selectedFile ? selectedFile.name : 'Click to upload image'}
-                      </p>
-                      <p className={`text-sm ${isDarkMode ? 'text-white/60' : 'text-black/60'}`}>
-                        JPG, PNG, JPEG • Maximum 10MB
-                      </p>
-                    </div>
-                  </label>
+                  <UploadDropzone
+                    multiple
+                    disabled={decoding}
+                    onFiles={handleFiles}
+                    title={decoding
+                      ? 'Decoding images...'
+                      : queue.items.length > 1
+                        ? `${queue.items.length} fields selected`
+                        : selectedFile ? selectedFile.name : 'Click to upload images'}
+                    hint="JPG, PNG, TIFF, HEIC • Maximum 10MB per upload • Add several fields of one slide for a consensus"
+                  />
+
+                  {pageStacks.length > 0 && (
+                    <PagePicker
+                      key={`${pageStacks[0].source.name}-${pageStacks[0].source.lastModified}`}
+                      stack={pageStacks[0]}
+                      onConfirm={handlePagesPicked}
+                      onCancel={() => setPageStacks((prev) => prev.slice(1))}
+                    />
+                  )}
+
+                  {queue.items.length > 1 && (
+                    <BatchQueue
+                      items={queue.items}
+                      activeId={activeItem?.id ?? null}
+                      onSelect={setActiveId}
+                      onRetry={queue.retry}
+                      onRemove={handleRemove}
+                      describeResult={(result) => result.segmentation_results.dominant_class || 'No species'}
+                    />
+                  )}
 
                   {previewUrl && (
                     <div className="space-y-4">
@@ -193,11 +396,38 @@ export default function ClassificationDetectPage() {
                     </div>
                   )}
 
+                  <label className="block space-y-2">
+                    <div className="flex items-center gap-2">
+                      <div className={`w-1 h-5 ${isDarkMode ? 'bg-white' : 'bg-black'} rounded-full`}></div>
+                      <span className={`text-sm font-bold ${isDarkMode ? 'text-white' : 'text-black'} uppercase tracking-wider`}>
+                        Max Upload Size
+                      </span>
+                    </div>
+                    <select
+                      value={maxDimension ?? ''}
+                      onChange={(e) => setMaxDimension(e.target.value ? Number(e.target.value) : null)}
+                      className={`w-full text-sm rounded-lg border-2 px-2 py-1.5 ${isDarkMode ? 'bg-black text-white border-white/20' : 'bg-white text-black border-black/20'}`}
+                    >
+                      {MAX_DIMENSION_OPTIONS.map((value) => (
+                        <option key={value ?? 'original'} value={value ?? ''}>
+                          {value ? `${value} px longest side` : 'Original size'}
+                        </option>
+                      ))}
+                    </select>
+                    <p className={`text-xs ${isDarkMode ? 'text-white/50' : 'text-black/50'}`}>
+                      Larger images are resampled before upload; pixel counts are reported for the original image.
+                    </p>
+                  </label>
+
+                  <StainNormalizationPanel enabled={stainEnabled} onEnabledChange={setStainEnabled} stain={stain} currentFile={selectedFile} />
+
+                  <CalibrationManager objective="40x" calibration={calibration} />
+
                   <div className="flex-1"></div>
 
                   <button
                     onClick={handleCategorize}
-                    disabled={!selectedFile || loading}
+                    disabled={queue.items.length === 0 || loading}
                     className={`w-full ${isDarkMode ? 'bg-white text-black hover:bg-white/90' : 'bg-black text-white hover:bg-black/90'} py-4 rounded-xl font-bold text-base disabled:${isDarkMode ? 'bg-white/30' : 'bg-black/30'} disabled:cursor-not-allowed transition-all duration-300 flex items-center justify-center gap-3 shadow-lg hover:shadow-2xl hover:scale-[1.02] group`}
                   >
                     {loading ? (
@@ -208,16 +438,39 @@ export default function ClassificationDetectPage() {
                     ) : (
                       <>
                         <Target className="w-5 h-5 group-hover:rotate-90 transition-transform duration-300" />
-                        <span>RUN SEGMENTATION</span>
+                        <span>{queue.items.length > 1 ? `RUN SEGMENTATION (${queue.items.length} FIELDS)` : 'RUN SEGMENTATION'}</span>
                       </>
                     )}
                   </button>
 
-                  {error && (
+                  {queue.items.length > 1 && !loading && (
+                    <button
+                      onClick={() => {
+                        queue.clear()
+                        setActiveId(null)
+                        setMaskReviews({})
+                      }}
+                      className={`w-full text-sm font-semibold ${isDarkMode ? 'text-white/60 hover:text-white' : 'text-black/60 hover:text-black'} transition-colors`}
+                    >
+                      Clear fields
+                    </button>
+                  )}
+
+                  {activeItem?.cause instanceof QualityGateError && (
+                    <QualityReportCard
+                      report={activeItem.cause.report}
+                      onOverride={() => {
+                        qualityOverrides.current.add(activeItem.file)
+                        queue.retry(activeItem.id)
+                      }}
+                    />
+                  )}
+
+                  {(error || (activeItem?.error && !(activeItem.cause instanceof QualityGateError))) && (
                     <Alert variant="destructive" className={`${isDarkMode ? 'border-red-400 bg-red-900/20' : 'border-red-300 bg-red-50'}`}>
                       <AlertCircle className="h-5 w-5" />
                       <AlertDescription className={`text-sm ${isDarkMode ? 'text-red-300' : 'text-red-900'} font-medium`}>
-                        {error}
+                        {error || activeItem?.error}
                       </AlertDescription>
                     </Alert>
                   )}
@@ -252,12 +505,16 @@ export default function ClassificationDetectPage() {
 
                   {results && (
                     <div className="space-y-8 flex-1 flex flex-col">
+                      {consensus && <SlideConsensusCard consensus={consensus} colorOf={colorOf} />}
+
+                      {results.quality && results.quality.status !== 'pass' && <QualityReportCard report={results.quality} />}
+
                       {/* Dominant class & overall confidence from API */}
                       <div className="space-y-4">
                         <div className="flex items-center gap-2">
                           <div className={`w-1 h-5 ${isDarkMode ? 'bg-white' : 'bg-black'} rounded-full`}></div>
                           <h3 className={`text-sm font-bold ${isDarkMode ? 'text-white' : 'text-black'} uppercase tracking-wider`}>
-                            Detection summary
+                            {consensus ? `Field summary • ${selectedFile?.name}` : 'Detection summary'}
                           </h3>
                         </div>
                         <div className="grid grid-cols-1 gap-3">
@@ -274,13 +531,32 @@ export default function ClassificationDetectPage() {
                               No species detected (dominant class is Background or missing)
                             </p>
                           </div>
+                        ) : differential?.ambiguous ? (
+                          <div className={`relative border-2 rounded-2xl p-6 ${isDarkMode ? 'border-amber-400/60 bg-amber-900/20' : 'border-amber-400 bg-amber-50'}`}>
+                            <div className="flex items-start gap-3">
+                              <AlertTriangle className={`w-6 h-6 shrink-0 ${isDarkMode ? 'text-amber-300' : 'text-amber-600'}`} />
+                              <div className="flex-1 min-w-0 space-y-1">
+                                <p className={`text-lg font-black ${isDarkMode ? 'text-amber-200' : 'text-amber-900'}`}>
+                                  Ambiguous / possible mixed infection — manual review required
+                                </p>
+                                <p className={`text-xs font-bold ${isDarkMode ? 'text-amber-200/80' : 'text-amber-900/80'}`}>
+                                  {differential.ranked.slice(0, 2).map((entry) => entry.name).join(' vs ')}
+                                </p>
+                                <ul className={`text-xs list-disc pl-4 ${isDarkMode ? 'text-amber-200/80' : 'text-amber-900/80'}`}>
+                                  {differential.reasons.map((reason) => (
+                                    <li key={reason}>{reason}</li>
+                                  ))}
+                                </ul>
+                              </div>
+                            </div>
+                          </div>
                         ) : (
                           <div className={`relative border-2 ${isDarkMode ? 'border-white' : 'border-black'} rounded-2xl p-6 overflow-hidden ${isDarkMode ? 'bg-black' : 'bg-white'}`}>
                             <div className={`absolute top-0 right-0 w-20 h-20 ${isDarkMode ? 'bg-white/10' : 'bg-black/10'} rounded-bl-full opacity-50`}></div>
                             <div className="flex items-center gap-3 relative z-10">
                               <div
                                 className="w-2 h-10 rounded-full shrink-0"
-                                style={{ backgroundColor: legendColorFromName(classLegend[dominantClass] ?? 'grey') }}
+                                style={{ backgroundColor: colorOf(dominantClass) }}
                               />
                               <div className="flex-1 min-w-0">
                                 <p className={`text-lg font-black ${isDarkMode ? 'text-white' : 'text-black'} break-words`}>
@@ -301,8 +577,8 @@ export default function ClassificationDetectPage() {
                               <span
                                 className="text-sm font-mono font-bold px-3 py-1.5 rounded-lg shrink-0"
                                 style={{
-                                  backgroundColor: `${legendColorFromName(classLegend[dominantClass] ?? 'grey')}20`,
-                                  color: legendColorFromName(classLegend[dominantClass] ?? 'grey'),
+                                  backgroundColor: `${colorOf(dominantClass)}20`,
+                                  color: colorOf(dominantClass),
                                 }}
                               >
                                 {dominantPercentage.toFixed(2)}%
@@ -312,6 +588,15 @@ export default function ClassificationDetectPage() {
                         )}
                       </div>
 
+                      {differential && (
+                        <DifferentialCard
+                          differential={differential}
+                          settings={differentialSettings}
+                          onSettingsChange={setDifferentialSettings}
+                          colorOf={colorOf}
+                        />
+                      )}
+
                       {/* Class legend */}
                       {Object.keys(classLegend).length > 0 && (
                         <div className="space-y-4">
@@ -320,7 +605,7 @@ export default function ClassificationDetectPage() {
                             <h3 className={`text-sm font-bold ${isDarkMode ? 'text-white' : 'text-black'} uppercase tracking-wider`}>Class legend</h3>
                           </div>
                           <div className="flex flex-wrap gap-2">
-                            {Object.entries(classLegend).map(([className, colorName]) => {
+                            {Object.keys(classLegend).map((className) => {
                               const { abbreviation, fullName } = splitClassName(className)
                               return (
                                 <span
@@ -329,7 +614,7 @@ export default function ClassificationDetectPage() {
                                 >
                                   <span
                                     className="w-3 h-3 rounded-full shrink-0"
-                                    style={{ backgroundColor: legendColorFromName(colorName) }}
+                                    style={{ backgroundColor: colorOf(className) }}
                                   />
                                   <span className={isDarkMode ? 'text-white' : 'text-black'}>
                                     {abbreviation}
@@ -344,19 +629,113 @@ export default function ClassificationDetectPage() {
 
                       {/* Overlay image */}
                       <div className="space-y-4">
-                        <div className="flex items-center gap-2">
-                          <div className={`w-1 h-5 ${isDarkMode ? 'bg-white' : 'bg-black'} rounded-full`}></div>
-                          <h3 className={`text-sm font-bold ${isDarkMode ? 'text-white' : 'text-black'} uppercase tracking-wider`}>Annotated image</h3>
+                        <div className="flex items-center justify-between gap-2">
+                          <div className="flex items-center gap-2">
+                            <div className={`w-1 h-5 ${isDarkMode ? 'bg-white' : 'bg-black'} rounded-full`}></div>
+                            <h3 className={`text-sm font-bold ${isDarkMode ? 'text-white' : 'text-black'} uppercase tracking-wider`}>Annotated image</h3>
+                          </div>
+                          {modelMask && !editingMask && (
+                            <div className="flex items-center gap-2">
+                              {reviewedResult && (
+                                <select
+                                  value={showModelOutput ? 'model' : 'reviewed'}
+                                  onChange={(e) => setShowModelOutput(e.target.value === 'model')}
+                                  className={`text-xs font-bold rounded-lg border-2 px-2 py-1 ${isDarkMode ? 'bg-black text-white border-white/20' : 'bg-white text-black border-black/20'}`}
+                                >
+                                  <option value="reviewed">Reviewed mask</option>
+                                  <option value="model">Model output</option>
+                                </select>
+                              )}
+                              <button
+                                type="button"
+                                onClick={handleStartMaskEdit}
+                                className={`inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-bold border-2 ${isDarkMode ? 'border-white/20 text-white hover:border-white' : 'border-black/20 text-black hover:border-black'} transition-colors`}
+                              >
+                                <Pencil className="w-3.5 h-3.5" />
+                                {reviewedResult ? 'Continue editing' : 'Edit mask'}
+                              </button>
+                            </div>
+                          )}
                         </div>
-                        <div className={`relative w-full ${isDarkMode ? 'bg-white/5' : 'bg-black/5'} rounded-xl overflow-hidden border-2 ${isDarkMode ? 'border-white/20' : 'border-black/20'} shadow-lg`}>
-                          <img
-                            src={results.overlay_image}
-                            alt="Segmentation overlay"
-                            className="w-full object-contain"
+                        {results.maskReview && (
+                          <p className={`text-xs ${isDarkMode ? 'text-white/60' : 'text-black/60'}`}>
+                            Reviewed mask • {results.maskReview.changed_pixels.toLocaleString()} px relabelled • Statistics recomputed from the edit
+                          </p>
+                        )}
+                        {editingMask && modelMask ? (
+                          <MaskEditor
+                            src={previewUrl}
+                            mask={reviewedResult && activeItem ? maskReviews[activeItem.id].review.mask : modelMask}
+                            classes={maskClasses}
+                            opacity={maskLayers.opacity}
+                            onChange={applyMaskEdit}
+                            canUndo={maskHistory.canUndo}
+                            canRedo={maskHistory.canRedo}
+                            onUndo={undoMaskEdit}
+                            onRedo={redoMaskEdit}
+                            onDiscard={() => applyMaskEdit(null)}
+                            onDone={() => setEditingMask(false)}
                           />
-                        </div>
+                        ) : mask ? (
+                          <SegmentationOverlay
+                            src={previewUrl}
+                            mask={mask}
+                            classes={maskClasses}
+                            settings={maskLayers}
+                            onSettingsChange={setMaskLayers}
+                            imageWidth={results.image_info?.width}
+                            imageHeight={results.image_info?.height}
+                            umPerPixel={umPerPixel}
+                            instances={instances ?? []}
+                            highlightedId={highlightedInstanceId}
+                            onInstanceHover={setHoveredInstanceId}
+                            onInstanceSelect={setSelectedInstanceId}
+                            colorOf={colorOf}
+                          />
+                        ) : (
+                          <div className={`relative w-full ${isDarkMode ? 'bg-white/5' : 'bg-black/5'} rounded-xl overflow-hidden border-2 ${isDarkMode ? 'border-white/20' : 'border-black/20'} shadow-lg`}>
+                            <img
+                              ref={overlayRef}
+                              src={results.overlay_image}
+                              alt="Segmentation overlay"
+                              className="w-full object-contain"
+                            />
+                            {umPerPixel && results.image_info && (
+                              <ScaleBar
+                                umPerPixel={umPerPixel}
+                                displayScale={overlayWidth / results.image_info.width}
+                                className="absolute bottom-2 left-2"
+                              />
+                            )}
+                          </div>
+                        )}
                       </div>
 
+                      {mask && selectedFile && (
+                        <MaskExportMenu
+                          input={{
+                            file: selectedFile,
+                            filename: selectedFile.name,
+                            response: results,
+                            mask,
+                            classes: maskClasses,
+                            overlay: () => renderSegmentationImage(previewUrl, mask, maskClasses, maskLayers),
+                          }}
+                        />
+                      )}
+
+                      {instances && (
+                        <InstanceTable
+                          instances={instances}
+                          highlightedId={highlightedInstanceId}
+                          selectedId={selectedInstanceId}
+                          onHover={setHoveredInstanceId}
+                          onSelect={setSelectedInstanceId}
+                          colorOf={colorOf}
+                          umPerPixel={umPerPixel}
+                        />
+                      )}
+
                       {/* Class statistics */}
                       <div className="space-y-4 flex-1 flex flex-col">
                         <div className="flex items-center gap-2">
@@ -367,7 +746,7 @@ export default function ClassificationDetectPage() {
                         </div>
                         <div className="flex-1 overflow-y-auto space-y-3 pr-2">
                           {classStats.map(([className, stats]) => {
-                            const color = legendColorFromName(classLegend[className] ?? 'grey')
+                            const color = colorOf(className)
                             const { abbreviation, fullName } = splitClassName(className)
                             return (
                               <div
@@ -384,7 +763,7 @@ export default function ClassificationDetectPage() {
                                     {fullName && <span className="italic"> {fullName}</span>}
                                   </p>
                                   <p className={`text-xs ${isDarkMode ? 'text-white/60' : 'text-black/60'}`}>
-                                    Pixels: {stats.pixel_count?.toLocaleString() ?? 0} • Avg confidence: {((stats.avg_confidence ?? 0) * 100).toFixed(1)}%
+                                    {formatArea(stats.pixel_count ?? 0) ?? `Pixels: ${stats.pixel_count?.toLocaleString() ?? 0}`} • Avg confidence: {((stats.avg_confidence ?? 0) * 100).toFixed(1)}%
                                   </p>
                                 </div>
                                 <span
@@ -398,6 +777,68 @@ export default function ClassificationDetectPage() {
                           })}
                         </div>
                       </div>
+
+                      <LabReport
+                        title="Microfilaria Species Report (40x)"
+                        filename={results.image_info?.filename ?? selectedFile?.name ?? 'image'}
+                        resultTimestamp={results.timestamp}
+                        summary={[
+                          { label: 'Dominant class', value: dominantClass || '—' },
+                          ...(differential
+                            ? [
+                                { label: 'Differential', value: differential.ranked.map((entry) => `${entry.name} ${(entry.score * 100).toFixed(0)}`).join(' > ') || '—' },
+                                ...(differential.ambiguous
+                                  ? [{ label: 'Review', value: `Ambiguous / possible mixed infection — manual review required (${differential.reasons.join('; ')})` }]
+                                  : []),
+                              ]
+                            : []),
+                          { label: 'Dominant share', value: `${dominantPercentage.toFixed(2)}%` },
+                          { label: 'Dominant confidence', value: `${(dominantConfidence * 100).toFixed(2)}%` },
+                          { label: 'Overall confidence', value: `${(overallConfidence * 100).toFixed(2)}%` },
+                          ...(instances ? [{ label: 'Instances', value: instances.length > 0 ? summarizeInstances(instances) : 'None' }] : []),
+                          ...(consensus
+                            ? [
+                                { label: 'Slide verdict', value: consensus.verdict ?? 'No species' },
+                                { label: 'Field agreement', value: `${(consensus.agreement * 100).toFixed(0)}% of ${consensus.fieldsWithSpecies} fields with species (${consensus.fields} analysed)` },
+                                ...(consensus.flags.length > 0 ? [{ label: 'Consensus flags', value: consensus.flags.join('; ') }] : []),
+                              ]
+                            : []),
+                        ]}
+                        method={[
+                          { label: 'Model', value: 'UNet segmentation, 40x' },
+                          ...(results.image_info
+                            ? [{ label: 'Image size', value: `${results.image_info.width} × ${results.image_info.height} px` }]
+                            : []),
+                          ...(results.preprocessing && results.preprocessing.scale < 1
+                            ? [{ label: 'Resampled for upload', value: `${(results.preprocessing.scale * 100).toFixed(0)}% of original size` }]
+                            : []),
+                          ...(results.quality
+                            ? [{ label: 'Image quality', value: `${results.quality.status}${results.quality.overridden ? ' (overridden)' : ''}, focus ${results.quality.focus.toFixed(0)}` }]
+                            : []),
+                          ...(results.stainNormalization
+                            ? [{ label: 'Stain normalization', value: `Reinhard, reference ${results.stainNormalization.reference}` }]
+                            : []),
+                          ...(results.maskReview
+                            ? [{ label: 'Mask review', value: `Edited by reviewer, ${results.maskReview.changed_pixels.toLocaleString()} px relabelled (${new Date(results.maskReview.reviewed_at).toLocaleString()})` }]
+                            : []),
+                          {
+                            label: 'Calibration',
+                            value: calibration.active ? `${calibration.active.name}, ${calibration.active.umPerPixel.toFixed(4)} µm/px` : 'None (pixels)',
+                          },
+                        ]}
+                        table={{
+                          columns: ['Class', 'Pixels', ...(umPerPixel ? ['Area'] : []), 'Share', 'Avg confidence', 'Max confidence'],
+                          rows: classStats.map(([className, stats]) => [
+                            className,
+                            stats.pixel_count?.toLocaleString() ?? 0,
+                            ...(umPerPixel ? [formatArea(stats.pixel_count ?? 0) ?? ''] : []),
+                            `${(stats.percentage ?? 0).toFixed(1)}%`,
+                            `${((stats.avg_confidence ?? 0) * 100).toFixed(1)}%`,
+                            `${((stats.max_confidence ?? 0) * 100).toFixed(1)}%`,
+                          ]),
+                        }}
+                        renderImage={async () => (mask ? renderSegmentationImage(previewUrl, mask, maskClasses, maskLayers) : results.overlay_image)}
+                      />
                     </div>
                   )}
                 </CardContent>
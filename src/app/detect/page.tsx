@@ -1,92 +1,327 @@
 'use client'
 
-import { useState } from 'react'
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import Image from 'next/image'
-import { Upload, Target, AlertCircle } from 'lucide-react'
+import { Target, AlertCircle, Layers, ClipboardCheck } from 'lucide-react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import { DotPattern } from '@/components/ui/dot-pattern'
 import { useTheme } from '@/components/ThemeProvider'
+import { BatchQueue } from '@/components/BatchQueue'
+import { CalibrationManager } from '@/components/CalibrationManager'
+import { DensityCalculator } from '@/components/DensityCalculator'
+import { DetectionGallery, type GalleryItem } from '@/components/DetectionGallery'
+import { DetectionViewer, type ViewerTool } from '@/components/DetectionViewer'
+import { ReviewBoxCard, ReviewToolbar, reviewBoxColor } from '@/components/DetectionReview'
+import { ExportMenu } from '@/components/ExportMenu'
+import { LabReport } from '@/components/LabReport'
+import { PagePicker } from '@/components/PagePicker'
+import { QualityReportCard } from '@/components/QualityReportCard'
+import { StainNormalizationPanel } from '@/components/StainNormalizationPanel'
+import { RunComparison } from '@/components/RunComparison'
+import { UploadDropzone } from '@/components/UploadDropzone'
+import { useCalibration } from '@/hooks/use-calibration'
+import { useStainReference } from '@/hooks/use-stain-reference'
+import { useHistory } from '@/hooks/use-history'
+import { useUploadQueue } from '@/hooks/use-upload-queue'
+import {
+  DETECTION_FLOOR_CONFIDENCE,
+  filterByConfidence,
+  formatBBox,
+  summarizeBatch,
+  type Detection,
+  type DetectionResponse,
+} from '@/lib/detection'
+import {
+  manualDetectionClass,
+  nextBoxId,
+  startReview,
+  summarizeReview,
+  toReviewedResponse,
+  type ReviewDecision,
+  type ReviewedResult,
+} from '@/lib/review'
+import { renderDetectionsImage } from '@/lib/canvas'
+import { formatBoxSize } from '@/lib/calibration'
+import { DEFAULT_DENSITY_SETTINGS, SMEAR_PRESETS, estimateDensity, formatDensity, type DensitySettings } from '@/lib/density'
+import { DEFAULT_TILING, type TilingOptions } from '@/lib/tiling'
+import { DEFAULT_MAX_DIMENSION, MAX_DIMENSION_OPTIONS, type MaxDimension } from '@/lib/preprocess'
+import { QualityGateError } from '@/lib/quality'
+import { detectUpload, prepareDetectionUpload } from '@/lib/detection-pipeline'
+import { resolveUploads, type DecodedPage, type PageStack } from '@/lib/image-decode'
 
-interface Detection {
-  id: number
-  class: string
-  confidence: number
-  bbox: {
-    x1: number
-    y1: number
-    x2: number
-    y2: number
-  }
-}
-
-interface DetectionResponse {
-  success: boolean
-  timestamp: string
-  image_info: {
-    width: number
-    height: number
-    filename: string
-  }
-  detection_stats: {
-    total_count: number
-    average_confidence: number
-    confidence_threshold: number
-  }
-  detections: Detection[]
-  annotated_image: string
-}
+// Number of images POSTed to /api/detect at the same time when running a batch
+const BATCH_CONCURRENCY = 3
 
 export default function DetectPage() {
   const { isDarkMode } = useTheme()
-  const [selectedFile, setSelectedFile] = useState<File | null>(null)
-  const [previewUrl, setPreviewUrl] = useState<string>('')
-  const [loading, setLoading] = useState(false)
-  const [results, setResults] = useState<DetectionResponse | null>(null)
+  const [activeId, setActiveId] = useState<string | null>(null)
   const [error, setError] = useState<string>('')
   const [confidence, setConfidence] = useState(0.25)
 
-  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0]
-    if (file) {
-      setSelectedFile(file)
-      setPreviewUrl(URL.createObjectURL(file))
-      setResults(null)
-      setError('')
-    }
-  }
+  // Large stitched scans are split into overlapping tiles and merged back client-side
+  const [tilingEnabled, setTilingEnabled] = useState(false)
+  const [tiling, setTiling] = useState<TilingOptions>(DEFAULT_TILING)
 
-  const handleDetect = async () => {
-    if (!selectedFile) {
-      setError('Please select an image first')
-      return
-    }
+  // µm per pixel of the active 10x profile; everything stays in pixels without one
+  const calibration = useCalibration('10x')
+  const umPerPixel = calibration.active?.umPerPixel ?? null
 
-    setLoading(true)
-    setError('')
+  // Oversized uploads are resampled before detection; tiled runs always keep full resolution
+  const [maxDimension, setMaxDimension] = useState<MaxDimension>(DEFAULT_MAX_DIMENSION)
 
-    const formData = new FormData()
-    formData.append('image', selectedFile)
-    formData.append('confidence', confidence.toString())
+  // Opt-in colour normalization; uploads stay unchanged until a reference slide is set
+  const [stainEnabled, setStainEnabled] = useState(false)
+  const stain = useStainReference()
+  const stainReference = stainEnabled ? stain.reference : null
 
-    try {
-      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/detect`, {
-        method: 'POST',
-        body: formData
+  // Files the user chose to analyse despite a failing quality check
+  const qualityOverrides = useRef(new WeakSet<File>())
+
+  // Shared with the run comparison so both see the same upload
+  const pipelineSettings = useMemo(
+    () => ({ maxDimension, tiling: tilingEnabled ? tiling : null, stainReference }),
+    [maxDimension, tilingEnabled, tiling, stainReference]
+  )
+
+  // Every image is detected once at the floor threshold; the slider only filters client-side
+  const runDetection = useCallback(
+    async (file: File, reportProgress: (progress: number) => void) => {
+      const upload = await prepareDetectionUpload(file, {
+        ...pipelineSettings,
+        overrideQuality: qualityOverrides.current.has(file),
       })
+      return detectUpload(upload, DETECTION_FLOOR_CONFIDENCE, reportProgress)
+    },
+    [pipelineSettings]
+  )
+  const queue = useUploadQueue<DetectionResponse>(runDetection, BATCH_CONCURRENCY)
+
+  const activeItem = queue.items.find((item) => item.id === activeId) ?? queue.items[0] ?? null
+  const previewUrl = activeItem?.previewUrl ?? ''
+  const rawResults = activeItem?.result ?? null
+  const results = useMemo(
+    () => (rawResults ? filterByConfidence(rawResults, confidence) : null),
+    [rawResults, confidence]
+  )
+  const loading = queue.isRunning
+  const finishedResults = queue.items.flatMap((item) => (item.result ? [filterByConfidence(item.result, confidence)] : []))
+  const batchSummary = queue.items.length > 1 && finishedResults.length > 0 ? summarizeBatch(finishedResults) : null
+  const hasPending = queue.items.some((item) => item.status === 'pending')
+
+  // Detection linked between the viewer and the "Detection Details" list
+  const [hoveredDetectionId, setHoveredDetectionId] = useState<number | null>(null)
+  const [selectedDetectionId, setSelectedDetectionId] = useState<number | null>(null)
+  const highlightedDetectionId = hoveredDetectionId ?? selectedDetectionId
+  const detectionListRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    setHoveredDetectionId(null)
+    setSelectedDetectionId(null)
+  }, [activeItem?.id, rawResults])
+
+  useEffect(() => {
+    if (selectedDetectionId === null) return
+    detectionListRef.current
+      ?.querySelector(`[data-detection-id="${selectedDetectionId}"]`)
+      ?.scrollIntoView({ block: 'nearest', behavior: 'smooth' })
+  }, [selectedDetectionId])
 
-      const data = await response.json()
+  // Manual review: corrected detections are kept per queue item next to the raw response
+  const [reviews, setReviews] = useState<Record<string, ReviewedResult>>({})
+  const [reviewMode, setReviewMode] = useState(false)
+  const [reviewTool, setReviewTool] = useState<ViewerTool>('pan')
+  const reviewHistory = useHistory<ReviewedResult | null>(null)
+  const activeReview = activeItem ? reviews[activeItem.id] ?? null : null
+  const reviewSummary = activeReview ? summarizeReview(activeReview) : null
+  // Hand-drawn boxes take the model's label, from this image's detections when it has any
+  const manualClass = manualDetectionClass(
+    rawResults?.detections.length ? [rawResults] : queue.items.flatMap((item) => (item.result ? [item.result] : []))
+  )
+  const reviewedItems = queue.items.filter((item) => item.result && reviews[item.id])
+  const batchFinalCount = queue.items.reduce((sum, item) => {
+    if (!item.result) return sum
+    const review = reviews[item.id]
+    return sum + (review ? summarizeReview(review).finalCount : filterByConfidence(item.result, confidence).detection_stats.total_count)
+  }, 0)
+
+  // Density (mf/mL) from the final count: reviewed where available, else the filtered model output
+  const [densitySettings, setDensitySettings] = useState<DensitySettings>(DEFAULT_DENSITY_SETTINGS)
+  const activeFinalCount = reviewSummary?.finalCount ?? results?.detection_stats.total_count ?? 0
+  const activeDensity = results ? estimateDensity(activeFinalCount, 1, densitySettings) : null
+  const batchDensity = batchSummary ? estimateDensity(batchFinalCount, batchSummary.images, densitySettings) : null
 
-      if (data.success) {
-        setResults(data)
+  // What leaves the page (exports): the reviewed set when there is one, else the filtered model output
+  const exportImages = queue.items.flatMap((item) => {
+    if (!item.result) return []
+    const review = reviews[item.id]
+    const response = review ? toReviewedResponse(item.result, review) : filterByConfidence(item.result, confidence)
+    return [{ id: item.id, file: item.file, filename: item.file.name, response }]
+  })
+  const activeExport = exportImages.find((image) => image.id === activeItem?.id)
+
+  // Crops for the gallery follow the same set as the viewer: reviewed boxes or the filtered output
+  const galleryItems = useMemo<GalleryItem[]>(() => {
+    const size = (bbox: Detection['bbox']) => (umPerPixel ? formatBoxSize(bbox, umPerPixel) : undefined)
+    if (activeReview) {
+      return activeReview.boxes.map((box) => ({
+        id: box.id,
+        bbox: box.bbox,
+        confidence: box.confidence,
+        label: box.source === 'manual' ? 'manual' : `${box.class} • ${box.decision}`,
+        color: reviewBoxColor(box),
+        detail: size(box.bbox),
+      }))
+    }
+    return (results?.detections ?? []).map((detection) => ({
+      id: detection.id,
+      bbox: detection.bbox,
+      confidence: detection.confidence,
+      label: detection.class,
+      detail: size(detection.bbox),
+    }))
+  }, [activeReview, results, umPerPixel])
+
+  useEffect(() => {
+    setReviewMode(false)
+    setReviewTool('pan')
+  }, [activeItem?.id])
+
+  const saveReview = useCallback((review: ReviewedResult | null) => {
+    if (!activeItem) return
+    setReviews((prev) => {
+      const next = { ...prev }
+      if (review) {
+        next[activeItem.id] = { ...review, reviewed_at: new Date().toISOString() }
       } else {
-        setError(data.error || 'Detection failed')
+        delete next[activeItem.id]
       }
-    } catch (err) {
-      setError('Failed to connect to API. Make sure Flask server is running on port 1000')
-      console.error(err)
+      return next
+    })
+  }, [activeItem])
+
+  const applyReview = useCallback((update: (review: ReviewedResult) => ReviewedResult) => {
+    if (!activeReview) return
+    const next = update(activeReview)
+    reviewHistory.push(next)
+    saveReview(next)
+  }, [activeReview, reviewHistory, saveReview])
+
+  const undoReview = useCallback(() => {
+    const previous = reviewHistory.undo()
+    if (previous !== undefined) saveReview(previous)
+  }, [reviewHistory, saveReview])
+
+  const redoReview = useCallback(() => {
+    const next = reviewHistory.redo()
+    if (next !== undefined) saveReview(next)
+  }, [reviewHistory, saveReview])
+
+  const setDecision = useCallback((id: number, decision: ReviewDecision) => {
+    applyReview((review) => ({
+      ...review,
+      boxes: review.boxes.map((box) => (box.id === id && box.source === 'model' ? { ...box, decision } : box)),
+    }))
+  }, [applyReview])
+
+  const removeManualBox = useCallback((id: number) => {
+    applyReview((review) => ({
+      ...review,
+      boxes: review.boxes.filter((box) => box.id !== id || box.source !== 'manual'),
+    }))
+  }, [applyReview])
+
+  const handleStartReview = () => {
+    if (!results) return
+    const review = activeReview ?? startReview(results)
+    saveReview(review)
+    reviewHistory.reset(review)
+    setReviewMode(true)
+  }
+
+  const handleDiscardReview = () => {
+    saveReview(null)
+    reviewHistory.reset(null)
+    setReviewMode(false)
+  }
+
+  // Review shortcuts: undo/redo, A accept, R reject, Delete remove
+  useEffect(() => {
+    if (!reviewMode) return
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return
+      const key = e.key.toLowerCase()
+      if ((e.ctrlKey || e.metaKey) && (key === 'y' || (key === 'z' && e.shiftKey))) {
+        e.preventDefault()
+        redoReview()
+      } else if ((e.ctrlKey || e.metaKey) && key === 'z') {
+        e.preventDefault()
+        undoReview()
+      } else if (selectedDetectionId !== null && !e.ctrlKey && !e.metaKey) {
+        const box = activeReview?.boxes.find((b) => b.id === selectedDetectionId)
+        if (!box) return
+        if (key === 'a' && box.source === 'model') setDecision(box.id, 'accepted')
+        if (key === 'r' && box.source === 'model') setDecision(box.id, 'rejected')
+        if (key === 'delete' || key === 'backspace') {
+          if (box.source === 'manual') removeManualBox(box.id)
+          else setDecision(box.id, 'rejected')
+        }
+      }
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [reviewMode, selectedDetectionId, activeReview, undoReview, redoReview, setDecision, removeManualBox])
+
+  // Multi-page TIFFs wait here until the user picks which pages to queue
+  const [pageStacks, setPageStacks] = useState<PageStack[]>([])
+  const [decoding, setDecoding] = useState(false)
+
+  const addFiles = (files: File[]) => {
+    if (files.length === 0) return
+    const added = queue.add(files)
+    setActiveId(added[0].id)
+  }
+
+  const handleFiles = async (selected: File[]) => {
+    setDecoding(true)
+    try {
+      const { files, stacks, errors } = await resolveUploads(selected, { checkSize: !tilingEnabled && maxDimension === null })
+      addFiles(files)
+      setPageStacks((prev) => [...prev, ...stacks])
+      setError(errors.join(' '))
     } finally {
-      setLoading(false)
+      setDecoding(false)
+    }
+  }
+
+  const handlePagesPicked = (pages: DecodedPage[]) => {
+    addFiles(pages.map((page) => page.file))
+    setPageStacks((prev) => prev.slice(1))
+  }
+
+  const handleRemove = (id: string) => {
+    queue.remove(id)
+    if (id === activeId) setActiveId(null)
+    setReviews((prev) => {
+      const next = { ...prev }
+      delete next[id]
+      return next
+    })
+  }
+
+  const handleDetect = () => {
+    if (queue.items.length === 0) {
+      setError('Please select an image first')
+      return
+    }
+
+    setError('')
+    if (hasPending) {
+      queue.start()
+    } else {
+      // Fresh model output invalidates reviews made against the previous run
+      setReviews({})
+      queue.rerunAll()
     }
   }
 
@@ -135,24 +370,39 @@ export default function DetectPage() {
                 </CardHeader>
                 <CardContent className="pt-8 space-y-8 flex-1 flex flex-col">
                   {/* File Input */}
-                  <label className="block cursor-pointer group">
-                    <input
-                      type="file"
-                      accept="image/*"
-                      onChange={handleFileSelect}
-                      className="hidden"
+                  <UploadDropzone
+                    multiple
+                    disabled={decoding}
+                    onFiles={handleFiles}
+                    title={decoding
+                      ? 'Decoding images...'
+                      : queue.items.length > 1
+                        ? `${queue.items.length} images selected`
+                        : activeItem ? activeItem.file.name : 'Click to upload images'}
+                    hint="JPG, PNG, TIFF, HEIC • Maximum 10MB per upload • Select several fields for a batch"
+                  />
+
+                  {/* Multi-page TIFF */}
+                  {pageStacks.length > 0 && (
+                    <PagePicker
+                      key={`${pageStacks[0].source.name}-${pageStacks[0].source.lastModified}`}
+                      stack={pageStacks[0]}
+                      onConfirm={handlePagesPicked}
+                      onCancel={() => setPageStacks((prev) => prev.slice(1))}
                     />
-                    <div className={`relative border-2 border-dashed ${isDarkMode ? 'border-white/30' : 'border-black/30'} rounded-2xl p-16 text-center transition-all duration-300 group-hover:${isDarkMode ? 'border-white' : 'border-black'} group-hover:${isDarkMode ? 'bg-white/5' : 'bg-black/5'} group-hover:scale-[1.02]`}>
-                      <div className={`absolute top-4 right-4 w-2 h-2 ${isDarkMode ? 'bg-white' : 'bg-black'} rounded-full opacity-0 group-hover:opacity-100 transition-opacity`}></div>
-                      <Upload className={`w-16 h-16 mx-auto mb-6 ${isDarkMode ? 'text-white/40' : 'text-black/40'} group-hover:${isDarkMode ? 'text-white' : 'text-black'} transition-all duration-300 group-hover:scale-110`} />
-                      <p className={`text-base font-semibold ${isDarkMode ? 'text-white' : 'text-black'} mb-2`}>
-                        {selectedFile ? selectedFile.name : 'Click to upload image'}
-                      </p>
-                      <p className={`text-sm ${isDarkMode ? 'text-white/60' : 'text-black/60'}`}>
-                        JPG, PNG, JPEG • Maximum 10MB
-                      </p>
-                    </div>
-                  </label>
+                  )}
+
+                  {/* Batch Queue */}
+                  {queue.items.length > 1 && (
+                    <BatchQueue
+                      items={queue.items}
+                      activeId={activeItem?.id ?? null}
+                      onSelect={setActiveId}
+                      onRetry={queue.retry}
+                      onRemove={handleRemove}
+                      describeResult={(result) => `${filterByConfidence(result, confidence).detection_stats.total_count} detections`}
+                    />
+                  )}
 
                   {/* Preview */}
                   {previewUrl && (
@@ -187,7 +437,7 @@ export default function DetectPage() {
                     <div className="relative">
                       <input
                         type="range"
-                        min="0.1"
+                        min={DETECTION_FLOOR_CONFIDENCE}
                         max="0.9"
                         step="0.05"
                         value={confidence}
@@ -200,36 +450,140 @@ export default function DetectPage() {
                         <span>0.9 HIGH</span>
                       </div>
                     </div>
+                    <p className={`pt-6 text-xs ${isDarkMode ? 'text-white/50' : 'text-black/50'}`}>
+                      Applied instantly to finished results — no re-upload needed
+                    </p>
                   </div>
 
+                  {/* Tiled Inference */}
+                  <div className="space-y-3">
+                    <label className="flex items-center justify-between gap-3 cursor-pointer">
+                      <div className="flex items-center gap-2">
+                        <div className={`w-1 h-5 ${isDarkMode ? 'bg-white' : 'bg-black'} rounded-full`}></div>
+                        <span className={`text-sm font-bold ${isDarkMode ? 'text-white' : 'text-black'} uppercase tracking-wider`}>
+                          Tiled Inference
+                        </span>
+                      </div>
+                      <input
+                        type="checkbox"
+                        checked={tilingEnabled}
+                        onChange={(e) => setTilingEnabled(e.target.checked)}
+                        className={`w-4 h-4 ${isDarkMode ? 'accent-white' : 'accent-black'}`}
+                      />
+                    </label>
+                    <p className={`text-xs ${isDarkMode ? 'text-white/50' : 'text-black/50'}`}>
+                      For stitched or very large scans: images bigger than one tile are split into overlapping tiles,
+                      detected at full resolution and merged across the seams.
+                    </p>
+                    {tilingEnabled && (
+                      <div className="grid grid-cols-2 gap-3">
+                        {([
+                          ['tileSize', 'Tile size (px)', [640, 1024, 1280, 1600]],
+                          ['overlap', 'Overlap (px)', [128, 256, 384, 512]],
+                        ] as const).map(([key, label, values]) => (
+                          <label key={key}>
+                            <span className={`block text-xs font-bold mb-1 ${isDarkMode ? 'text-white/60' : 'text-black/60'}`}>{label}</span>
+                            <select
+                              value={tiling[key]}
+                              onChange={(e) => setTiling((prev) => ({ ...prev, [key]: Number(e.target.value) }))}
+                              className={`w-full text-sm rounded-lg border-2 px-2 py-1.5 ${isDarkMode ? 'bg-black text-white border-white/20' : 'bg-white text-black border-black/20'}`}
+                            >
+                              {values.map((value) => (
+                                <option key={value} value={value}>{value}</option>
+                              ))}
+                            </select>
+                          </label>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+
+                  {/* Downscaling */}
+                  <label className="block space-y-2">
+                    <div className="flex items-center gap-2">
+                      <div className={`w-1 h-5 ${isDarkMode ? 'bg-white' : 'bg-black'} rounded-full`}></div>
+                      <span className={`text-sm font-bold ${isDarkMode ? 'text-white' : 'text-black'} uppercase tracking-wider`}>
+                        Max Upload Size
+                      </span>
+                    </div>
+                    <select
+                      value={maxDimension ?? ''}
+                      onChange={(e) => setMaxDimension(e.target.value ? Number(e.target.value) : null)}
+                      disabled={tilingEnabled}
+                      className={`w-full text-sm rounded-lg border-2 px-2 py-1.5 disabled:opacity-50 ${isDarkMode ? 'bg-black text-white border-white/20' : 'bg-white text-black border-black/20'}`}
+                    >
+                      {MAX_DIMENSION_OPTIONS.map((value) => (
+                        <option key={value ?? 'original'} value={value ?? ''}>
+                          {value ? `${value} px longest side` : 'Original size'}
+                        </option>
+                      ))}
+                    </select>
+                    <p className={`text-xs ${isDarkMode ? 'text-white/50' : 'text-black/50'}`}>
+                      {tilingEnabled
+                        ? 'Tiled inference always uploads at full resolution.'
+                        : 'Larger images are resampled before upload; boxes are mapped back to the original image.'}
+                    </p>
+                  </label>
+
+                  <StainNormalizationPanel enabled={stainEnabled} onEnabledChange={setStainEnabled} stain={stain} currentFile={activeItem?.file ?? null} />
+
+                  <CalibrationManager objective="10x" calibration={calibration} />
+
                   {/* Spacer */}
                   <div className="flex-1"></div>
 
                   {/* Detect Button */}
                   <button
                     onClick={handleDetect}
-                    disabled={!selectedFile || loading}
+                    disabled={queue.items.length === 0 || loading}
                     className={`w-full ${isDarkMode ? 'bg-white text-black hover:bg-white/90' : 'bg-black text-white hover:bg-black/90'} py-4 rounded-xl font-bold text-base disabled:${isDarkMode ? 'bg-white/30' : 'bg-black/30'} disabled:cursor-not-allowed transition-all duration-300 flex items-center justify-center gap-3 shadow-lg hover:shadow-2xl hover:scale-[1.02] group`}
                   >
                     {loading ? (
                       <>
                         <div className={`animate-spin h-5 w-5 border-2 ${isDarkMode ? 'border-black' : 'border-white'} border-t-transparent rounded-full`}></div>
-                        <span>ANALYZING...</span>
+                        <span>
+                          ANALYZING...
+                          {activeItem?.status === 'running' && activeItem.progress !== undefined && ` ${(activeItem.progress * 100).toFixed(0)}%`}
+                        </span>
                       </>
                     ) : (
                       <>
                         <Target className="w-5 h-5 group-hover:rotate-90 transition-transform duration-300" />
-                        <span>RUN DETECTION</span>
+                        <span>{queue.items.length > 1 ? `RUN DETECTION (${queue.items.length} IMAGES)` : 'RUN DETECTION'}</span>
                       </>
                     )}
                   </button>
 
+                  {queue.items.length > 1 && !loading && (
+                    <button
+                      onClick={() => {
+                        queue.clear()
+                        setActiveId(null)
+                        setReviews({})
+                      }}
+                      className={`w-full text-sm font-semibold ${isDarkMode ? 'text-white/60 hover:text-white' : 'text-black/60 hover:text-black'} transition-colors`}
+                    >
+                      Clear queue
+                    </button>
+                  )}
+
+                  {/* Quality gate */}
+                  {activeItem?.cause instanceof QualityGateError && (
+                    <QualityReportCard
+                      report={activeItem.cause.report}
+                      onOverride={() => {
+                        qualityOverrides.current.add(activeItem.file)
+                        queue.retry(activeItem.id)
+                      }}
+                    />
+                  )}
+
                   {/* Error Message */}
-                  {error && (
+                  {(error || (activeItem?.error && !(activeItem.cause instanceof QualityGateError))) && (
                     <Alert variant="destructive" className={`${isDarkMode ? 'border-red-400 bg-red-900/20' : 'border-red-300 bg-red-50'}`}>
                       <AlertCircle className="h-5 w-5" />
                       <AlertDescription className={`text-sm ${isDarkMode ? 'text-red-300' : 'text-red-900'} font-medium`}>
-                        {error}
+                        {error || activeItem?.error}
                       </AlertDescription>
                     </Alert>
                   )}
@@ -245,6 +599,33 @@ export default function DetectPage() {
                   <CardDescription className={isDarkMode ? 'text-white/60' : 'text-black/60'}>Detection summary and findings</CardDescription>
                 </CardHeader>
                 <CardContent className="pt-8 flex-1 flex flex-col">
+                  {/* Batch Summary */}
+                  {batchSummary && (
+                    <div className={`mb-8 border-2 ${isDarkMode ? 'border-white/20' : 'border-black/20'} rounded-2xl p-4`}>
+                      <div className="flex items-center gap-2 mb-3">
+                        <Layers className={`w-4 h-4 ${isDarkMode ? 'text-white' : 'text-black'}`} />
+                        <h3 className={`text-sm font-bold ${isDarkMode ? 'text-white' : 'text-black'} uppercase tracking-wider`}>
+                          Batch Summary ({batchSummary.images} of {queue.items.length} images)
+                        </h3>
+                      </div>
+                      <div className="grid grid-cols-2 gap-4">
+                        <div>
+                          <p className={`text-xs ${isDarkMode ? 'text-white/60' : 'text-black/60'} uppercase tracking-wider font-bold`}>Total Detections</p>
+                          <p className={`text-3xl font-black ${isDarkMode ? 'text-white' : 'text-black'}`}>{batchSummary.totalCount}</p>
+                        </div>
+                        <div>
+                          <p className={`text-xs ${isDarkMode ? 'text-white/60' : 'text-black/60'} uppercase tracking-wider font-bold`}>Weighted Avg Confidence</p>
+                          <p className={`text-3xl font-black ${isDarkMode ? 'text-white' : 'text-black'}`}>{(batchSummary.averageConfidence * 100).toFixed(0)}%</p>
+                        </div>
+                      </div>
+                      {reviewedItems.length > 0 && (
+                        <p className={`mt-3 text-xs ${isDarkMode ? 'text-white/60' : 'text-black/60'}`}>
+                          Final count after review: <span className="font-bold">{batchFinalCount}</span> ({reviewedItems.length} of {batchSummary.images} images reviewed)
+                        </p>
+                      )}
+                    </div>
+                  )}
+
                   {!results && (
                     <div className="flex flex-col items-center justify-center flex-1 text-center">
                       <div className="relative mb-6">
@@ -260,6 +641,8 @@ export default function DetectPage() {
 
                   {results && (
                     <div className="space-y-8 flex-1 flex flex-col">
+                      {results.quality && results.quality.status !== 'pass' && <QualityReportCard report={results.quality} />}
+
                       {/* Statistics */}
                       <div className="grid grid-cols-2 gap-6">
                         <div className={`relative border-2 ${isDarkMode ? 'border-white' : 'border-black'} rounded-2xl p-6 ${isDarkMode ? 'bg-black' : 'bg-white'} overflow-hidden group hover:${isDarkMode ? 'bg-white' : 'bg-black'} transition-colors duration-300`}>
@@ -276,36 +659,242 @@ export default function DetectPage() {
                             {(results.detection_stats.average_confidence * 100).toFixed(0)}%
                           </p>
                         </div>
+                        {reviewSummary && (
+                          <div className={`col-span-2 flex items-center gap-4 border-2 ${isDarkMode ? 'border-blue-400/60' : 'border-blue-500/60'} rounded-2xl p-4`}>
+                            <ClipboardCheck className="w-8 h-8 text-blue-500 shrink-0" />
+                            <div className="flex-1">
+                              <p className={`text-xs ${isDarkMode ? 'text-white/60' : 'text-black/60'} uppercase tracking-wider font-bold`}>Reviewed Count</p>
+                              <p className={`text-xs ${isDarkMode ? 'text-white/50' : 'text-black/50'}`}>
+                                AI {reviewSummary.aiCount} • {reviewSummary.accepted} accepted • {reviewSummary.rejected} rejected • {reviewSummary.added} added
+                                {reviewSummary.pending > 0 && ` • ${reviewSummary.pending} pending`}
+                              </p>
+                            </div>
+                            <p className={`text-4xl font-black ${isDarkMode ? 'text-white' : 'text-black'}`}>{reviewSummary.finalCount}</p>
+                          </div>
+                        )}
                       </div>
 
+                      <DensityCalculator
+                        settings={densitySettings}
+                        onChange={setDensitySettings}
+                        current={activeDensity}
+                        batch={batchSummary && { estimate: batchDensity, images: batchSummary.images }}
+                      />
+
                       {/* Annotated Image */}
                       <div className="space-y-4">
-                        <div className="flex items-center gap-2">
-                          <div className={`w-1 h-5 ${isDarkMode ? 'bg-white' : 'bg-black'} rounded-full`}></div>
-                          <h3 className={`text-sm font-bold ${isDarkMode ? 'text-white' : 'text-black'} uppercase tracking-wider`}>Annotated Image</h3>
+                        <div className="flex items-center justify-between">
+                          <div className="flex items-center gap-2">
+                            <div className={`w-1 h-5 ${isDarkMode ? 'bg-white' : 'bg-black'} rounded-full`}></div>
+                            <h3 className={`text-sm font-bold ${isDarkMode ? 'text-white' : 'text-black'} uppercase tracking-wider`}>Annotated Image</h3>
+                          </div>
+                          {!reviewMode && (
+                            <button
+                              onClick={handleStartReview}
+                              className={`inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-bold border-2 ${isDarkMode ? 'border-white/20 text-white hover:border-white' : 'border-black/20 text-black hover:border-black'} transition-colors`}
+                            >
+                              <ClipboardCheck className="w-3.5 h-3.5" />
+                              {activeReview ? 'EDIT REVIEW' : 'REVIEW'}
+                            </button>
+                          )}
                         </div>
-                        <div className={`relative w-full ${isDarkMode ? 'bg-white/5' : 'bg-black/5'} rounded-xl overflow-hidden border-2 ${isDarkMode ? 'border-white/20' : 'border-black/20'} shadow-lg`}>
-                          <img
-                            src={results.annotated_image}
-                            alt="Detection Result"
-                            className="w-full object-contain"
+                        {reviewMode && reviewSummary && (
+                          <ReviewToolbar
+                            tool={reviewTool}
+                            onToolChange={setReviewTool}
+                            canUndo={reviewHistory.canUndo}
+                            canRedo={reviewHistory.canRedo}
+                            onUndo={undoReview}
+                            onRedo={redoReview}
+                            onAcceptRemaining={() => applyReview((review) => ({
+                              ...review,
+                              boxes: review.boxes.map((box) => (box.decision === 'pending' ? { ...box, decision: 'accepted' } : box)),
+                            }))}
+                            onDiscard={handleDiscardReview}
+                            onDone={() => setReviewMode(false)}
+                            summary={reviewSummary}
                           />
-                        </div>
+                        )}
+                        <DetectionViewer
+                          src={previewUrl}
+                          imageWidth={results.image_info.width}
+                          imageHeight={results.image_info.height}
+                          boxes={activeReview
+                            ? activeReview.boxes.map((box) => ({
+                                id: box.id,
+                                bbox: box.bbox,
+                                label: box.source === 'manual' ? `#${box.id} manual` : `#${box.id} ${(box.confidence * 100).toFixed(0)}%`,
+                                color: reviewBoxColor(box),
+                                dashed: box.decision === 'rejected',
+                              }))
+                            : results.detections.map((detection) => ({
+                                id: detection.id,
+                                bbox: detection.bbox,
+                                label: `#${detection.id} ${(detection.confidence * 100).toFixed(0)}%`,
+                              }))}
+                          highlightedId={highlightedDetectionId}
+                          onHover={setHoveredDetectionId}
+                          onSelect={setSelectedDetectionId}
+                          umPerPixel={umPerPixel}
+                          editable={reviewMode}
+                          selectedId={selectedDetectionId}
+                          tool={reviewTool}
+                          onBoxChange={(id, bbox) => applyReview((review) => ({
+                            ...review,
+                            boxes: review.boxes.map((box) => (box.id === id ? { ...box, bbox } : box)),
+                          }))}
+                          onBoxCreate={(bbox) => {
+                            if (!activeReview) return
+                            const id = nextBoxId(activeReview.boxes)
+                            applyReview((review) => ({
+                              ...review,
+                              boxes: [...review.boxes, { id, class: manualClass, confidence: 1, bbox, decision: 'accepted', source: 'manual' }],
+                            }))
+                            setSelectedDetectionId(id)
+                          }}
+                        />
+                        <p className={`text-xs ${isDarkMode ? 'text-white/50' : 'text-black/50'}`}>
+                          {reviewMode && reviewTool === 'draw'
+                            ? 'Drag on the image to draw a missed detection • Scroll to zoom'
+                            : 'Scroll to zoom • Drag to pan • Click a box to find it in the list'}
+                        </p>
                       </div>
 
+                      {activeExport && <ExportMenu current={activeExport} batch={exportImages} />}
+
+                      {activeExport && (
+                        <LabReport
+                          title="Microfilaria Detection Report (10x)"
+                          filename={activeExport.filename}
+                          resultTimestamp={results.timestamp}
+                          summary={[
+                            { label: 'AI detections', value: String(results.detection_stats.total_count) },
+                            ...(reviewSummary ? [{ label: 'Reviewed count', value: String(reviewSummary.finalCount) }] : []),
+                            { label: 'Average confidence', value: `${(results.detection_stats.average_confidence * 100).toFixed(1)}%` },
+                            ...(activeDensity
+                              ? [{
+                                  label: 'Microfilaraemia',
+                                  value: `${formatDensity(activeDensity.perMl)} mf/mL (95% CI ${formatDensity(activeDensity.lower)}–${formatDensity(activeDensity.upper)})`,
+                                }]
+                              : []),
+                          ]}
+                          method={[
+                            { label: 'Model', value: 'YOLOv8m detection, 10x' },
+                            { label: 'Confidence threshold', value: (activeReview?.confidence_threshold ?? confidence).toFixed(2) },
+                            { label: 'Image size', value: `${results.image_info.width} × ${results.image_info.height} px` },
+                            ...(results.preprocessing && results.preprocessing.scale < 1
+                              ? [{ label: 'Resampled for upload', value: `${(results.preprocessing.scale * 100).toFixed(0)}% of original size` }]
+                              : []),
+                            ...(results.tiling
+                              ? [{ label: 'Tiled inference', value: `${results.tiling.tile_count} tiles of ${results.tiling.tile_size} px, ${results.tiling.overlap} px overlap` }]
+                              : []),
+                            ...(activeDensity
+                              ? [{
+                                  label: 'Blood examined',
+                                  value: `${activeDensity.examinedVolumeUl.toFixed(1)} µL (${SMEAR_PRESETS[densitySettings.smearType].label}, ${activeDensity.fieldsAnalysed} of ${densitySettings.fieldsTotal} fields)`,
+                                }]
+                              : []),
+                            ...(results.quality
+                              ? [{ label: 'Image quality', value: `${results.quality.status}${results.quality.overridden ? ' (overridden)' : ''}, focus ${results.quality.focus.toFixed(0)}` }]
+                              : []),
+                            ...(results.stainNormalization
+                              ? [{ label: 'Stain normalization', value: `Reinhard, reference ${results.stainNormalization.reference}` }]
+                              : []),
+                            {
+                              label: 'Calibration',
+                              value: calibration.active ? `${calibration.active.name}, ${calibration.active.umPerPixel.toFixed(4)} µm/px` : 'None (pixels)',
+                            },
+                            { label: 'Manual review', value: reviewSummary ? `Yes (${reviewSummary.pending} pending)` : 'No' },
+                          ]}
+                          table={{
+                            columns: ['#', 'Class', 'Confidence', 'Box [x1, y1, x2, y2]', ...(umPerPixel ? ['Size'] : []), 'Status'],
+                            rows: activeReview
+                              ? activeReview.boxes.map((box) => [
+                                  box.id,
+                                  box.class,
+                                  box.source === 'manual' ? '—' : `${(box.confidence * 100).toFixed(1)}%`,
+                                  formatBBox(box.bbox),
+                                  ...(umPerPixel ? [formatBoxSize(box.bbox, umPerPixel)] : []),
+                                  box.source === 'manual' ? 'added' : box.decision,
+                                ])
+                              : results.detections.map((detection) => [
+                                  detection.id,
+                                  detection.class,
+                                  `${(detection.confidence * 100).toFixed(1)}%`,
+                                  formatBBox(detection.bbox),
+                                  ...(umPerPixel ? [formatBoxSize(detection.bbox, umPerPixel)] : []),
+                                  'not reviewed',
+                                ]),
+                          }}
+                          renderImage={() => renderDetectionsImage(
+                            previewUrl,
+                            results.image_info.width,
+                            results.image_info.height,
+                            activeExport.response.detections
+                          )}
+                        />
+                      )}
+
+                      {activeItem && (
+                        <RunComparison
+                          key={activeItem.id}
+                          file={activeItem.file}
+                          previewUrl={previewUrl}
+                          settings={{ ...pipelineSettings, overrideQuality: qualityOverrides.current.has(activeItem.file) }}
+                          defaultConfidence={confidence}
+                        />
+                      )}
+
+                      <DetectionGallery
+                        src={previewUrl}
+                        items={galleryItems}
+                        selectedId={selectedDetectionId}
+                        onSelect={setSelectedDetectionId}
+                      />
+
                       {/* Detection List */}
                       <div className="space-y-4 flex-1 flex flex-col">
                         <div className="flex items-center gap-2">
                           <div className={`w-1 h-5 ${isDarkMode ? 'bg-white' : 'bg-black'} rounded-full`}></div>
                           <h3 className={`text-sm font-bold ${isDarkMode ? 'text-white' : 'text-black'} uppercase tracking-wider`}>
-                            Detection Details ({results.detections.length})
+                            {activeReview ? `Reviewed Detections (${activeReview.boxes.length})` : `Detection Details (${results.detections.length})`}
                           </h3>
                         </div>
-                        <div className="flex-1 overflow-y-auto space-y-3 pr-2">
-                          {results.detections.map((detection) => (
+                        <div ref={detectionListRef} className="flex-1 overflow-y-auto space-y-3 pr-2">
+                          {activeReview && activeReview.boxes.map((box) => (
+                            <div
+                              key={box.id}
+                              data-detection-id={box.id}
+                              onMouseEnter={() => setHoveredDetectionId(box.id)}
+                              onMouseLeave={() => setHoveredDetectionId(null)}
+                              onClick={() => setSelectedDetectionId(selectedDetectionId === box.id ? null : box.id)}
+                              className={`cursor-pointer border-2 ${
+                                box.id === highlightedDetectionId
+                                  ? 'border-orange-500'
+                                  : isDarkMode ? 'border-white/20' : 'border-black/20'
+                              } rounded-xl p-3 ${isDarkMode ? 'bg-black' : 'bg-white'} transition-all duration-300`}
+                            >
+                              <ReviewBoxCard
+                                box={box}
+                                readOnly={!reviewMode}
+                                size={umPerPixel ? formatBoxSize(box.bbox, umPerPixel) : undefined}
+                                onDecision={(decision) => setDecision(box.id, decision)}
+                                onRemove={() => removeManualBox(box.id)}
+                              />
+                            </div>
+                          ))}
+                          {!activeReview && results.detections.map((detection) => (
                             <div
                               key={detection.id}
-                              className={`border-2 ${isDarkMode ? 'border-white/20' : 'border-black/20'} rounded-xl p-4 ${isDarkMode ? 'bg-black' : 'bg-white'} hover:${isDarkMode ? 'border-white' : 'border-black'} hover:shadow-lg transition-all duration-300 group`}
+                              data-detection-id={detection.id}
+                              onMouseEnter={() => setHoveredDetectionId(detection.id)}
+                              onMouseLeave={() => setHoveredDetectionId(null)}
+                              onClick={() => setSelectedDetectionId(selectedDetectionId === detection.id ? null : detection.id)}
+                              className={`cursor-pointer border-2 ${
+                                detection.id === highlightedDetectionId
+                                  ? 'border-orange-500'
+                                  : isDarkMode ? 'border-white/20' : 'border-black/20'
+                              } rounded-xl p-4 ${isDarkMode ? 'bg-black' : 'bg-white'} hover:${isDarkMode ? 'border-white' : 'border-black'} hover:shadow-lg transition-all duration-300 group`}
                             >
                               <div className="flex justify-between items-start mb-3">
                                 <span className={`text-sm font-bold ${isDarkMode ? 'text-white' : 'text-black'} group-hover:${isDarkMode ? 'text-white' : 'text-black'}`}>
@@ -321,6 +910,11 @@ export default function DetectPage() {
                               <p className={`text-xs ${isDarkMode ? 'text-white/50' : 'text-black/50'} font-mono ${isDarkMode ? 'bg-white/10' : 'bg-black/10'} px-2 py-1 rounded border ${isDarkMode ? 'border-white/20' : 'border-black/20'}`}>
                                 [{detection.bbox.x1.toFixed(0)}, {detection.bbox.y1.toFixed(0)}, {detection.bbox.x2.toFixed(0)}, {detection.bbox.y2.toFixed(0)}]
                               </p>
+                              {umPerPixel && (
+                                <p className={`mt-2 text-xs font-bold ${isDarkMode ? 'text-white/60' : 'text-black/60'}`}>
+                                  Size: {formatBoxSize(detection.bbox, umPerPixel)}
+                                </p>
+                              )}
                             </div>
                           ))}
                         </div>
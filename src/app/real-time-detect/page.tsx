@@ -7,11 +7,11 @@ import { Button } from "@/components/ui/button"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Slider } from "@/components/ui/slider"
 import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Separator } from "@/components/ui/separator"
 import { ScrollArea } from "@/components/ui/scroll-area"
 import {
-  Video,
   VideoOff,
   Camera,
   Play,
@@ -22,6 +22,20 @@ import {
   WifiOff,
   FlipHorizontal
 } from "lucide-react"
+import { useSocketEndpoint } from "@/hooks/use-socket-endpoint"
+import {
+  DEFAULT_PACING_SETTINGS,
+  MAX_IN_FLIGHT_OPTIONS,
+  canSendFrame,
+  createPacingState,
+  markFrameSent,
+  nextFrameDelay,
+  receiveFrameResult,
+  type PacingSettings,
+} from "@/lib/frame-pacing"
+import { maskToRgba } from "@/lib/frame-codec"
+import { createFrameWorker, supportsFrameWorker, type FrameWorkerClient } from "@/lib/frame-worker-client"
+import { parseSocketEndpoint } from "@/lib/socket-endpoint"
 
 // Types
 interface Detection {
@@ -62,10 +76,6 @@ interface DetectionResult {
   result: YoloResult | UnetResult | { yolo: YoloResult; unet: UnetResult }
 }
 
-const SOCKET_URL = "https://api.microfilaria.click"  // No path suffix!
-const SOCKET_PATH = "/microphilaria_model_api/socket.io"
-// const SOCKET_URL = "http://localhost:5001"  // No path suffix!
-// const SOCKET_PATH = "/socket.io"
 // Detection colors (RGB)
 const CLASS_COLORS: Record<string, string> = {
   'Background': 'rgba(0, 0, 0, 0.5)',
@@ -75,21 +85,35 @@ const CLASS_COLORS: Record<string, string> = {
   'BP Brugia pahangi': 'rgba(0, 0, 255, 0.7)'
 }
 
+function unetResultOf(data: DetectionResult): UnetResult | null {
+  if (data.type === "unet") return data.result as UnetResult
+  if (data.type === "combined") return (data.result as { unet: UnetResult }).unet
+  return null
+}
+
 export default function RealTimeDetectPage() {
   // Connection state
   const [socket, setSocket] = useState<Socket | null>(null)
   const [isConnected, setIsConnected] = useState(false)
   const [isStreaming, setIsStreaming] = useState(false)
+  const [connectionError, setConnectionError] = useState("")
+
+  // Server: NEXT_PUBLIC_SOCKET_URL / NEXT_PUBLIC_SOCKET_PATH unless this browser saved its own
+  const { endpoint, override, setOverride, loaded } = useSocketEndpoint()
+  const [endpointDraft, setEndpointDraft] = useState(endpoint)
+  const [endpointError, setEndpointError] = useState("")
 
   // Settings
   const [processType, setProcessType] = useState<"yolo" | "unet" | "combined">("yolo")
   const [confidence, setConfidence] = useState(0.25)
   const [facingMode, setFacingMode] = useState<"user" | "environment">("environment")
+  const [pacingSettings, setPacingSettings] = useState<PacingSettings>(DEFAULT_PACING_SETTINGS)
 
   // Results
   const [latestResult, setLatestResult] = useState<DetectionResult | null>(null)
   const [fps, setFps] = useState(0)
   const [processingTime, setProcessingTime] = useState(0)
+  const [encoding, setEncoding] = useState({ quality: 0, maxWidth: 0, dropped: 0 })
 
   // Refs
   const videoRef = useRef<HTMLVideoElement>(null)
@@ -97,17 +121,49 @@ export default function RealTimeDetectPage() {
   const overlayCanvasRef = useRef<HTMLCanvasElement>(null)
   const streamRef = useRef<MediaStream | null>(null)
   const frameIdRef = useRef(0)
-  const lastFrameTimeRef = useRef(0)
   const frameTimesRef = useRef<number[]>([])
-  const processingRef = useRef(false)
-  const intervalRef = useRef<NodeJS.Timeout | null>(null)
+  const timerRef = useRef<NodeJS.Timeout | null>(null)
+  // Round-trip tracking and encoder settings; mutated from socket handlers, mirrored to state for display
+  const pacingRef = useRef(createPacingState())
+  const pacingSettingsRef = useRef(pacingSettings)
+  const captureRef = useRef<() => void>(() => {})
+  // The socket effect reads these through refs so it only reconnects when the endpoint changes
+  const renderResultRef = useRef<(data: DetectionResult) => void>(() => {})
+  const stopStreamingRef = useRef<() => void>(() => {})
+  // Encoding and mask colouring run here when supported; the mask canvas is reused across frames
+  const workerRef = useRef<FrameWorkerClient | null>(null)
+  const maskCanvasRef = useRef<HTMLCanvasElement | null>(null)
+
+  useEffect(() => {
+    if (!supportsFrameWorker()) return
+    // A broken worker is dropped and frames are encoded on the main thread from then on
+    const worker = createFrameWorker((error) => {
+      console.error(error)
+      if (workerRef.current === worker) workerRef.current = null
+    })
+    workerRef.current = worker
+    return () => {
+      workerRef.current = null
+      worker.terminate()
+    }
+  }, [])
 
-  // Initialize socket connection
   useEffect(() => {
-    console.log("🔌 Connecting to:", SOCKET_URL)
+    pacingSettingsRef.current = pacingSettings
+  }, [pacingSettings])
 
-    const newSocket = io(SOCKET_URL, {
-      path: SOCKET_PATH,
+  useEffect(() => {
+    setEndpointDraft(endpoint)
+  }, [endpoint])
+
+  // Initialize socket connection, again whenever the endpoint changes
+  useEffect(() => {
+    if (!loaded) return
+    console.log("🔌 Connecting to:", endpoint.url, endpoint.path)
+    setConnectionError("")
+
+    const newSocket = io(endpoint.url, {
+      path: endpoint.path,
       transports: ["websocket", "polling"],
       reconnection: true,
       reconnectionAttempts: 5,
@@ -117,12 +173,17 @@ export default function RealTimeDetectPage() {
     newSocket.on("connect", () => {
       console.log("✅ Connected:", newSocket.id)
       setIsConnected(true)
+      setConnectionError("")
+    })
+
+    newSocket.on("connect_error", (error) => {
+      setConnectionError(error.message)
     })
 
     newSocket.on("disconnect", () => {
       console.log("❌ Disconnected")
       setIsConnected(false)
-      stopStreaming()
+      stopStreamingRef.current()
     })
 
     newSocket.on("connected", (data) => {
@@ -131,10 +192,14 @@ export default function RealTimeDetectPage() {
 
     newSocket.on("detection_result", (data: DetectionResult) => {
       const now = Date.now()
-      
-      // Calculate processing time
-      setProcessingTime(now - lastFrameTimeRef.current)
-      
+      const pacing = pacingRef.current
+      const { show, rtt } = receiveFrameResult(pacing, pacingSettingsRef.current, data.frame_id, now)
+      if (rtt !== null) setProcessingTime(Math.round(rtt))
+      setEncoding({ quality: pacing.quality, maxWidth: pacing.maxWidth, dropped: pacing.dropped })
+
+      // A reply for an older frame than the one on screen
+      if (!show) return
+
       // Calculate FPS
       frameTimesRef.current.push(now)
       if (frameTimesRef.current.length > 10) {
@@ -146,13 +211,13 @@ export default function RealTimeDetectPage() {
       }
 
       setLatestResult(data)
-      drawOverlay(data)
-      processingRef.current = false
+      renderResultRef.current(data)
     })
 
     newSocket.on("error", (error) => {
       console.error("Socket error:", error)
-      processingRef.current = false
+      // The failed frame is not identified, so free every slot rather than wait for the timeout
+      pacingRef.current.inFlight.clear()
     })
 
     setSocket(newSocket)
@@ -160,10 +225,10 @@ export default function RealTimeDetectPage() {
     return () => {
       newSocket.disconnect()
     }
-  }, [])
+  }, [loaded, endpoint])
 
-  // Draw detection overlay on canvas
-  const drawOverlay = useCallback((data: DetectionResult) => {
+  // Draw detection overlay on canvas: the coloured mask first, boxes on top
+  const drawOverlay = useCallback((data: DetectionResult, mask: { rgba: Uint8ClampedArray<ArrayBuffer>; width: number; height: number } | null) => {
     const overlayCanvas = overlayCanvasRef.current
     const video = videoRef.current
     if (!overlayCanvas || !video) return
@@ -178,6 +243,19 @@ export default function RealTimeDetectPage() {
     // Clear previous overlay
     ctx.clearRect(0, 0, overlayCanvas.width, overlayCanvas.height)
 
+    if (mask) {
+      const maskCanvas = maskCanvasRef.current ?? document.createElement("canvas")
+      maskCanvasRef.current = maskCanvas
+      if (maskCanvas.width !== mask.width || maskCanvas.height !== mask.height) {
+        maskCanvas.width = mask.width
+        maskCanvas.height = mask.height
+      }
+      maskCanvas.getContext("2d")?.putImageData(new ImageData(mask.rgba, mask.width, mask.height), 0, 0)
+
+      // Draw scaled mask on overlay
+      ctx.drawImage(maskCanvas, 0, 0, overlayCanvas.width, overlayCanvas.height)
+    }
+
     if (data.type === "yolo" || data.type === "combined") {
       const yoloResult = data.type === "yolo" 
         ? data.result as YoloResult 
@@ -208,68 +286,76 @@ export default function RealTimeDetectPage() {
         ctx.fillText(label, boxX + 5, boxY - 6)
       })
     }
+  }, [])
 
-    if (data.type === "unet" || data.type === "combined") {
-      const unetResult = data.type === "unet"
-        ? data.result as UnetResult
-        : (data.result as { unet: UnetResult }).unet
-
-      // If mask is provided, draw segmentation overlay
-      if (unetResult.mask && unetResult.mask_shape) {
-        try {
-          const maskBytes = Uint8Array.from(atob(unetResult.mask), c => c.charCodeAt(0))
-          const [maskH, maskW] = unetResult.mask_shape
-
-          // Create temporary canvas for mask
-          const maskCanvas = document.createElement("canvas")
-          maskCanvas.width = maskW
-          maskCanvas.height = maskH
-          const maskCtx = maskCanvas.getContext("2d")
-          if (maskCtx) {
-            const imageData = maskCtx.createImageData(maskW, maskH)
-            
-            for (let i = 0; i < maskBytes.length; i++) {
-              const classId = maskBytes[i]
-              const colors: Record<number, number[]> = {
-                0: [0, 0, 0, 0],      // Background - transparent
-                1: [0, 255, 0, 100],  // WB - Green
-                2: [255, 0, 0, 100],  // BM - Red
-                3: [255, 255, 0, 100], // BT - Yellow
-                4: [0, 0, 255, 100]   // BP - Blue
-              }
-              const [r, g, b, a] = colors[classId] || [0, 0, 0, 0]
-              imageData.data[i * 4] = r
-              imageData.data[i * 4 + 1] = g
-              imageData.data[i * 4 + 2] = b
-              imageData.data[i * 4 + 3] = a
-            }
-            
-            maskCtx.putImageData(imageData, 0, 0)
-            
-            // Draw scaled mask on overlay
-            ctx.drawImage(maskCanvas, 0, 0, overlayCanvas.width, overlayCanvas.height)
-          }
-        } catch (e) {
-          console.error("Failed to draw mask:", e)
-        }
-      }
+  // Colours the mask in the worker (or here without one), then draws it unless a newer result is already up
+  const renderResult = useCallback((data: DetectionResult) => {
+    const unetResult = unetResultOf(data)
+    if (!unetResult?.mask || unetResult.mask_shape?.length !== 2) {
+      drawOverlay(data, null)
+      return
     }
-  }, [])
+    const [height, width] = unetResult.mask_shape
+    const encoded = unetResult.mask
+    const worker = workerRef.current
+    const rgba = worker ? worker.maskToRgba(encoded, width, height) : Promise.resolve().then(() => maskToRgba(encoded, width, height))
+    rgba
+      .then((pixels) => {
+        if (pacingRef.current.lastShownFrameId === data.frame_id) drawOverlay(data, { rgba: pixels, width, height })
+      })
+      .catch((e) => {
+        console.error("Failed to draw mask:", e)
+        drawOverlay(data, null)
+      })
+  }, [drawOverlay])
 
   // Capture and send frame
   const captureAndSendFrame = useCallback(() => {
-    if (!socket || !isConnected || !videoRef.current || !canvasRef.current || processingRef.current) {
+    const pacing = pacingRef.current
+    const video = videoRef.current
+    if (!socket || !isConnected || !video || video.readyState !== 4) return
+    if (!canSendFrame(pacing, pacingSettingsRef.current, Date.now())) return
+
+    // The slot is taken now so the next tick cannot overshoot while this frame encodes
+    const frameId = ++frameIdRef.current
+    markFrameSent(pacing, frameId, Date.now())
+
+    const send = (buffer: ArrayBuffer) => {
+      // Streaming stopped or restarted (camera flip) while this frame encoded: its slot belongs to an old pacing state
+      if (!streamRef.current || pacingRef.current !== pacing) return
+      // The round trip is timed from the send, not from the capture
+      markFrameSent(pacing, frameId, Date.now())
+      socket.emit("process_frame", {
+        frame: new Uint8Array(buffer),
+        type: processType,
+        conf: confidence,
+        return_mask: processType === "unet" || processType === "combined",
+        frame_id: frameId
+      })
+    }
+    const release = (error?: unknown) => {
+      if (error) console.error("Failed to encode frame:", error)
+      pacing.inFlight.delete(frameId)
+    }
+
+    // Only the frame grab stays on the main thread; scaling and JPEG encoding happen in the worker
+    const worker = workerRef.current
+    if (worker) {
+      createImageBitmap(video)
+        .then((bitmap) => worker.encode(bitmap, pacing.maxWidth, pacing.quality))
+        .then(send, release)
       return
     }
 
-    const video = videoRef.current
     const canvas = canvasRef.current
-    const ctx = canvas.getContext("2d")
-    if (!ctx || video.readyState !== 4) return
+    const ctx = canvas?.getContext("2d")
+    if (!canvas || !ctx) {
+      release()
+      return
+    }
 
-    // Set canvas size to video size (or smaller for bandwidth)
-    const maxWidth = 640
-    const scale = Math.min(1, maxWidth / video.videoWidth)
+    // Set canvas size to video size, or smaller while the round trip is slow
+    const scale = Math.min(1, pacing.maxWidth / video.videoWidth)
     canvas.width = video.videoWidth * scale
     canvas.height = video.videoHeight * scale
 
@@ -278,31 +364,24 @@ export default function RealTimeDetectPage() {
 
     // Convert to JPEG blob
     canvas.toBlob((blob) => {
-      if (!blob || !socket) return
-
-      processingRef.current = true
-      lastFrameTimeRef.current = Date.now()
-      frameIdRef.current++
-
-      // Convert blob to array buffer and send
-      blob.arrayBuffer().then((buffer) => {
-        socket.emit("process_frame", {
-          frame: new Uint8Array(buffer),
-          type: processType,
-          conf: confidence,
-          return_mask: processType === "unet" || processType === "combined",
-          frame_id: frameIdRef.current
-        })
-      })
-    }, "image/jpeg", 0.7)
+      if (!blob) {
+        release()
+        return
+      }
+      blob.arrayBuffer().then(send, release)
+    }, "image/jpeg", pacing.quality)
   }, [socket, isConnected, processType, confidence])
 
-  // Start camera and streaming
-  const startStreaming = useCallback(async () => {
+  useEffect(() => {
+    captureRef.current = captureAndSendFrame
+  }, [captureAndSendFrame])
+
+  // Start camera and streaming; the camera is passed in so a flip can restart before state updates
+  const startStreaming = useCallback(async (camera: "user" | "environment") => {
     try {
       const stream = await navigator.mediaDevices.getUserMedia({
         video: {
-          facingMode: facingMode,
+          facingMode: camera,
           width: { ideal: 1280 },
           height: { ideal: 720 }
         }
@@ -316,19 +395,24 @@ export default function RealTimeDetectPage() {
 
       setIsStreaming(true)
 
-      // Start sending frames at 10 FPS
-      intervalRef.current = setInterval(captureAndSendFrame, 100)
+      // Paced by the round trip rather than a fixed rate; the latest settings are read on every tick
+      pacingRef.current = createPacingState()
+      const tick = () => {
+        captureRef.current()
+        timerRef.current = setTimeout(tick, nextFrameDelay(pacingRef.current, pacingSettingsRef.current))
+      }
+      tick()
 
     } catch (error) {
       console.error("Failed to start camera:", error)
     }
-  }, [facingMode, captureAndSendFrame])
+  }, [])
 
   // Stop streaming
   const stopStreaming = useCallback(() => {
-    if (intervalRef.current) {
-      clearInterval(intervalRef.current)
-      intervalRef.current = null
+    if (timerRef.current) {
+      clearTimeout(timerRef.current)
+      timerRef.current = null
     }
 
     if (streamRef.current) {
@@ -343,18 +427,39 @@ export default function RealTimeDetectPage() {
     setIsStreaming(false)
     setLatestResult(null)
     setFps(0)
+    setEncoding({ quality: 0, maxWidth: 0, dropped: 0 })
     frameTimesRef.current = []
-    processingRef.current = false
+    pacingRef.current = createPacingState()
   }, [])
 
+  useEffect(() => {
+    renderResultRef.current = renderResult
+    stopStreamingRef.current = stopStreaming
+  }, [renderResult, stopStreaming])
+
+  const handleSaveEndpoint = () => {
+    try {
+      setOverride(parseSocketEndpoint(endpointDraft.url, endpointDraft.path))
+      setEndpointError("")
+    } catch (error) {
+      setEndpointError(error instanceof Error ? error.message : String(error))
+    }
+  }
+
+  const handleResetEndpoint = () => {
+    setOverride(null)
+    setEndpointError("")
+  }
+
   // Toggle camera
   const toggleCamera = useCallback(() => {
-    setFacingMode(prev => prev === "user" ? "environment" : "user")
+    const next = facingMode === "user" ? "environment" : "user"
+    setFacingMode(next)
     if (isStreaming) {
       stopStreaming()
-      setTimeout(startStreaming, 100)
+      startStreaming(next)
     }
-  }, [isStreaming, stopStreaming, startStreaming])
+  }, [facingMode, isStreaming, stopStreaming, startStreaming])
 
   // Render metadata panel
   const renderMetadata = () => {
@@ -432,187 +537,250 @@ export default function RealTimeDetectPage() {
   }
 
   return (
-    // <div className="container py-6 space-y-6">
-    //   {/* Header */}
-    //   <div className="flex items-center justify-between">
-    //     <div>
-    //       <h1 className="text-2xl font-semibold">Real-time Detection</h1>
-    //       <p className="text-muted-foreground">
-    //         Camera streaming with YOLO/U-Net processing
-    //       </p>
-    //     </div>
-    //     <div className="flex items-center gap-2">
-    //       {isConnected ? (
-    //         <Badge variant="default" className="gap-1">
-    //           <Wifi className="h-3 w-3" />
-    //           Connected
-    //         </Badge>
-    //       ) : (
-    //         <Badge variant="destructive" className="gap-1">
-    //           <WifiOff className="h-3 w-3" />
-    //           Disconnected
-    //         </Badge>
-    //       )}
-    //     </div>
-    //   </div>
-
-    //   {/* Main Content */}
-    //   <div className="grid gap-6 lg:grid-cols-3">
-    //     {/* Video Panel */}
-    //     <div className="lg:col-span-2 space-y-4">
-    //       <Card>
-    //         <CardContent className="p-0">
-    //           <div className="relative aspect-video bg-black rounded-lg overflow-hidden">
-    //             {/* Live video feed */}
-    //             <video
-    //               ref={videoRef}
-    //               className="w-full h-full object-contain"
-    //               playsInline
-    //               muted
-    //             />
-                
-    //             {/* Detection overlay canvas */}
-    //             <canvas
-    //               ref={overlayCanvasRef}
-    //               className="absolute inset-0 w-full h-full object-contain pointer-events-none"
-    //             />
-
-    //             {/* Hidden canvas for frame capture */}
-    //             <canvas ref={canvasRef} className="hidden" />
-
-    //             {/* Overlay stats */}
-    //             {isStreaming && (
-    //               <div className="absolute top-2 left-2 flex gap-2">
-    //                 <Badge variant="secondary" className="bg-black/50 text-white">
-    //                   {fps} FPS
-    //                 </Badge>
-    //                 <Badge variant="secondary" className="bg-black/50 text-white">
-    //                   {processingTime}ms
-    //                 </Badge>
-    //               </div>
-    //             )}
-
-    //             {/* Camera flip button */}
-    //             {isStreaming && (
-    //               <Button
-    //                 variant="secondary"
-    //                 size="icon"
-    //                 className="absolute top-2 right-2 bg-black/50"
-    //                 onClick={toggleCamera}
-    //               >
-    //                 <FlipHorizontal className="h-4 w-4" />
-    //               </Button>
-    //             )}
-
-    //             {/* Placeholder when not streaming */}
-    //             {!isStreaming && (
-    //               <div className="absolute inset-0 flex flex-col items-center justify-center text-white">
-    //                 <Camera className="h-12 w-12 mb-2 opacity-50" />
-    //                 <span>Click Start to begin</span>
-    //               </div>
-    //             )}
-    //           </div>
-    //         </CardContent>
-    //       </Card>
-
-    //       {/* Controls */}
-    //       <div className="flex gap-2">
-    //         {!isStreaming ? (
-    //           <Button
-    //             onClick={startStreaming}
-    //             disabled={!isConnected}
-    //             className="flex-1 gap-2"
-    //           >
-    //             <Play className="h-4 w-4" />
-    //             Start Camera
-    //           </Button>
-    //         ) : (
-    //           <Button
-    //             onClick={stopStreaming}
-    //             variant="destructive"
-    //             className="flex-1 gap-2"
-    //           >
-    //             <Square className="h-4 w-4" />
-    //             Stop Camera
-    //           </Button>
-    //         )}
-    //       </div>
-    //     </div>
-
-    //     {/* Settings & Results Panel */}
-    //     <div className="space-y-4">
-    //       {/* Settings */}
-    //       <Card>
-    //         <CardHeader className="pb-3">
-    //           <CardTitle className="text-base flex items-center gap-2">
-    //             <Settings2 className="h-4 w-4" />
-    //             Settings
-    //           </CardTitle>
-    //         </CardHeader>
-    //         <CardContent className="space-y-4">
-    //           <div className="space-y-2">
-    //             <Label>Model</Label>
-    //             <Select
-    //               value={processType}
-    //               onValueChange={(v) => setProcessType(v as typeof processType)}
-    //               disabled={isStreaming}
-    //             >
-    //               <SelectTrigger>
-    //                 <SelectValue />
-    //               </SelectTrigger>
-    //               <SelectContent>
-    //                 <SelectItem value="yolo">YOLO Detection</SelectItem>
-    //                 <SelectItem value="unet">U-Net Segmentation</SelectItem>
-    //                 <SelectItem value="combined">Combined</SelectItem>
-    //               </SelectContent>
-    //             </Select>
-    //           </div>
-
-    //           {(processType === "yolo" || processType === "combined") && (
-    //             <div className="space-y-2">
-    //               <div className="flex justify-between">
-    //                 <Label>Confidence</Label>
-    //                 <span className="text-sm text-muted-foreground">{confidence.toFixed(2)}</span>
-    //               </div>
-    //               <Slider
-    //                 value={[confidence]}
-    //                 onValueChange={([v]) => setConfidence(v)}
-    //                 min={0.1}
-    //                 max={0.9}
-    //                 step={0.05}
-    //               />
-    //             </div>
-    //           )}
-    //         </CardContent>
-    //       </Card>
-
-    //       {/* Results */}
-    //       <Card>
-    //         <CardHeader className="pb-3">
-    //           <CardTitle className="text-base flex items-center gap-2">
-    //             <Activity className="h-4 w-4" />
-    //             Results
-    //           </CardTitle>
-    //           <CardDescription>
-    //             {isStreaming ? "Live detection" : "Start camera to see results"}
-    //           </CardDescription>
-    //         </CardHeader>
-    //         <CardContent>
-    //           {isStreaming && latestResult ? (
-    //             renderMetadata()
-    //           ) : (
-    //             <div className="py-8 text-center text-muted-foreground">
-    //               <VideoOff className="h-8 w-8 mx-auto mb-2 opacity-50" />
-    //               <p className="text-sm">No active stream</p>
-    //             </div>
-    //           )}
-    //         </CardContent>
-    //       </Card>
-    //     </div>
-    //   </div>
-    // </div>
-    <div>
-        The real-time detection is under development. Please check back later.
+    <div className="container py-6 space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold">Real-time Detection</h1>
+          <p className="text-muted-foreground">
+            Camera streaming with YOLO/U-Net processing
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {isConnected ? (
+            <Badge variant="default" className="gap-1">
+              <Wifi className="h-3 w-3" />
+              Connected
+            </Badge>
+          ) : (
+            <Badge variant="destructive" className="gap-1">
+              <WifiOff className="h-3 w-3" />
+              Disconnected
+            </Badge>
+          )}
+        </div>
+      </div>
+
+      {/* Main Content */}
+      <div className="grid gap-6 lg:grid-cols-3">
+        {/* Video Panel */}
+        <div className="lg:col-span-2 space-y-4">
+          <Card>
+            <CardContent className="p-0">
+              <div className="relative aspect-video bg-black rounded-lg overflow-hidden">
+                {/* Live video feed */}
+                <video
+                  ref={videoRef}
+                  className="w-full h-full object-contain"
+                  playsInline
+                  muted
+                />
+
+                {/* Detection overlay canvas */}
+                <canvas
+                  ref={overlayCanvasRef}
+                  className="absolute inset-0 w-full h-full object-contain pointer-events-none"
+                />
+
+                {/* Hidden canvas for frame capture */}
+                <canvas ref={canvasRef} className="hidden" />
+
+                {/* Overlay stats */}
+                {isStreaming && (
+                  <div className="absolute top-2 left-2 flex gap-2">
+                    <Badge variant="secondary" className="bg-black/50 text-white">
+                      {fps} FPS
+                    </Badge>
+                    <Badge variant="secondary" className="bg-black/50 text-white">
+                      {processingTime}ms
+                    </Badge>
+                    {encoding.maxWidth > 0 && (
+                      <Badge variant="secondary" className="bg-black/50 text-white">
+                        {encoding.maxWidth}px • Q{Math.round(encoding.quality * 100)}
+                      </Badge>
+                    )}
+                    {encoding.dropped > 0 && (
+                      <Badge variant="secondary" className="bg-black/50 text-white">
+                        {encoding.dropped} late
+                      </Badge>
+                    )}
+                  </div>
+                )}
+
+                {/* Camera flip button */}
+                {isStreaming && (
+                  <Button
+                    variant="secondary"
+                    size="icon"
+                    className="absolute top-2 right-2 bg-black/50"
+                    onClick={toggleCamera}
+                  >
+                    <FlipHorizontal className="h-4 w-4" />
+                  </Button>
+                )}
+
+                {/* Placeholder when not streaming */}
+                {!isStreaming && (
+                  <div className="absolute inset-0 flex flex-col items-center justify-center text-white">
+                    <Camera className="h-12 w-12 mb-2 opacity-50" />
+                    <span>Click Start to begin</span>
+                  </div>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Controls */}
+          <div className="flex gap-2">
+            {!isStreaming ? (
+              <Button
+                onClick={() => startStreaming(facingMode)}
+                disabled={!isConnected}
+                className="flex-1 gap-2"
+              >
+                <Play className="h-4 w-4" />
+                Start Camera
+              </Button>
+            ) : (
+              <Button
+                onClick={stopStreaming}
+                variant="destructive"
+                className="flex-1 gap-2"
+              >
+                <Square className="h-4 w-4" />
+                Stop Camera
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {/* Settings & Results Panel */}
+        <div className="space-y-4">
+          {/* Settings */}
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-base flex items-center gap-2">
+                <Settings2 className="h-4 w-4" />
+                Settings
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label>Model</Label>
+                <Select
+                  value={processType}
+                  onValueChange={(v) => setProcessType(v as typeof processType)}
+                  disabled={isStreaming}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="yolo">YOLO Detection</SelectItem>
+                    <SelectItem value="unet">U-Net Segmentation</SelectItem>
+                    <SelectItem value="combined">Combined</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {(processType === "yolo" || processType === "combined") && (
+                <div className="space-y-2">
+                  <div className="flex justify-between">
+                    <Label>Confidence</Label>
+                    <span className="text-sm text-muted-foreground">{confidence.toFixed(2)}</span>
+                  </div>
+                  <Slider
+                    value={[confidence]}
+                    onValueChange={([v]) => setConfidence(v)}
+                    min={0.1}
+                    max={0.9}
+                    step={0.05}
+                  />
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <Label>Frames in flight</Label>
+                <Select
+                  value={String(pacingSettings.maxInFlight)}
+                  onValueChange={(v) => setPacingSettings({ ...pacingSettings, maxInFlight: Number(v) })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {MAX_IN_FLIGHT_OPTIONS.map((count) => (
+                      <SelectItem key={count} value={String(count)}>
+                        {count === 1 ? "1 (wait for each result)" : `Up to ${count}`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  Frames are sent as fast as the round trip allows; size and JPEG quality drop while it stays above {pacingSettings.targetLatency}ms
+                </p>
+              </div>
+
+              <Separator />
+
+              <div className="space-y-2">
+                <Label htmlFor="socket-url">Server</Label>
+                <Input
+                  id="socket-url"
+                  value={endpointDraft.url}
+                  onChange={(e) => setEndpointDraft({ ...endpointDraft, url: e.target.value })}
+                  placeholder="http://localhost:5001"
+                  disabled={isStreaming}
+                />
+                <Input
+                  aria-label="Socket.IO path"
+                  value={endpointDraft.path}
+                  onChange={(e) => setEndpointDraft({ ...endpointDraft, path: e.target.value })}
+                  placeholder="/socket.io"
+                  disabled={isStreaming}
+                />
+                <div className="flex gap-2">
+                  <Button size="sm" onClick={handleSaveEndpoint} disabled={isStreaming}>
+                    Connect
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={handleResetEndpoint} disabled={isStreaming || !override}>
+                    Use default
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {override ? "Saved for this browser only" : "Default server for this deployment"}
+                </p>
+                {(endpointError || (!isConnected && connectionError)) && (
+                  <p className="text-xs text-destructive">{endpointError || `Cannot reach server: ${connectionError}`}</p>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Results */}
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-base flex items-center gap-2">
+                <Activity className="h-4 w-4" />
+                Results
+              </CardTitle>
+              <CardDescription>
+                {isStreaming ? "Live detection" : "Start camera to see results"}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {isStreaming && latestResult ? (
+                renderMetadata()
+              ) : (
+                <div className="py-8 text-center text-muted-foreground">
+                  <VideoOff className="h-8 w-8 mx-auto mb-2 opacity-50" />
+                  <p className="text-sm">No active stream</p>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
     </div>
   )
 }
\ No newline at end of file
@@ -0,0 +1,120 @@
+"use client"
+
+import { RotateCcw, X, CheckCircle2, XCircle, Clock } from "lucide-react"
+import { useTheme } from "@/components/ThemeProvider"
+import type { QueueItem, QueueStatus } from "@/hooks/use-upload-queue"
+
+const STATUS_LABELS: Record<QueueStatus, string> = {
+  pending: "Pending",
+  running: "Running",
+  done: "Done",
+  failed: "Failed",
+}
+
+interface BatchQueueProps<T> {
+  items: QueueItem<T>[]
+  activeId: string | null
+  onSelect: (id: string) => void
+  onRetry: (id: string) => void
+  onRemove: (id: string) => void
+  /** Short per-item summary shown next to the status once an item is done */
+  describeResult?: (result: T) => string
+}
+
+export function BatchQueue<T>({ items, activeId, onSelect, onRetry, onRemove, describeResult }: BatchQueueProps<T>) {
+  const { isDarkMode } = useTheme()
+
+  const doneCount = items.filter((item) => item.status === "done").length
+  const failedCount = items.filter((item) => item.status === "failed").length
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <div className={`w-1 h-5 ${isDarkMode ? "bg-white" : "bg-black"} rounded-full`}></div>
+          <h3 className={`text-sm font-bold ${isDarkMode ? "text-white" : "text-black"} uppercase tracking-wider`}>
+            Queue ({items.length})
+          </h3>
+        </div>
+        <span className={`text-xs font-mono ${isDarkMode ? "text-white/60" : "text-black/60"}`}>
+          {doneCount} done{failedCount > 0 && ` • ${failedCount} failed`}
+        </span>
+      </div>
+      <div className="max-h-72 overflow-y-auto space-y-2 pr-2">
+        {items.map((item) => {
+          const isActive = item.id === activeId
+          return (
+            <div
+              key={item.id}
+              role="button"
+              tabIndex={0}
+              onClick={() => onSelect(item.id)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter" || e.key === " ") onSelect(item.id)
+              }}
+              className={`flex items-center gap-3 border-2 rounded-xl p-2 cursor-pointer transition-all duration-200 ${
+                isActive
+                  ? isDarkMode ? "border-white bg-white/10" : "border-black bg-black/5"
+                  : isDarkMode ? "border-white/20 hover:border-white/60" : "border-black/20 hover:border-black/60"
+              }`}
+            >
+              <img src={item.previewUrl} alt="" className="w-12 h-12 rounded-lg object-cover shrink-0" />
+              <div className="flex-1 min-w-0">
+                <p className={`text-sm font-semibold truncate ${isDarkMode ? "text-white" : "text-black"}`}>{item.file.name}</p>
+                <p className={`text-xs ${item.status === "failed" ? (isDarkMode ? "text-red-300" : "text-red-700") : isDarkMode ? "text-white/60" : "text-black/60"} truncate`}>
+                  {item.status === "failed"
+                    ? item.error
+                    : item.status === "done" && item.result !== undefined && describeResult
+                      ? describeResult(item.result)
+                      : item.status === "running" && item.progress !== undefined
+                        ? `${STATUS_LABELS.running} ${(item.progress * 100).toFixed(0)}%`
+                        : STATUS_LABELS[item.status]}
+                </p>
+              </div>
+              <StatusIcon status={item.status} isDarkMode={isDarkMode} />
+              {item.status === "failed" && (
+                <button
+                  type="button"
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    onRetry(item.id)
+                  }}
+                  className={`p-1.5 rounded-lg ${isDarkMode ? "hover:bg-white/10 text-white" : "hover:bg-black/10 text-black"}`}
+                  aria-label={`Retry ${item.file.name}`}
+                >
+                  <RotateCcw className="w-4 h-4" />
+                </button>
+              )}
+              {item.status !== "running" && (
+                <button
+                  type="button"
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    onRemove(item.id)
+                  }}
+                  className={`p-1.5 rounded-lg ${isDarkMode ? "hover:bg-white/10 text-white/60" : "hover:bg-black/10 text-black/60"}`}
+                  aria-label={`Remove ${item.file.name}`}
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
+
+function StatusIcon({ status, isDarkMode }: { status: QueueStatus; isDarkMode: boolean }) {
+  switch (status) {
+    case "running":
+      return <div className={`animate-spin h-4 w-4 border-2 ${isDarkMode ? "border-white" : "border-black"} border-t-transparent rounded-full shrink-0`} />
+    case "done":
+      return <CheckCircle2 className="w-4 h-4 text-green-500 shrink-0" />
+    case "failed":
+      return <XCircle className="w-4 h-4 text-red-500 shrink-0" />
+    default:
+      return <Clock className={`w-4 h-4 shrink-0 ${isDarkMode ? "text-white/40" : "text-black/40"}`} />
+  }
+}
@@ -0,0 +1,230 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Plus, Ruler, Trash2 } from "lucide-react"
+import { useTheme } from "@/components/ThemeProvider"
+import type { useCalibration } from "@/hooks/use-calibration"
+import { umPerPixelFromPoints, type Point } from "@/lib/calibration"
+import { UPLOAD_ACCEPT, decodableFormat, decodeImageFile } from "@/lib/image-decode"
+
+interface CalibrationManagerProps {
+  objective: string
+  calibration: ReturnType<typeof useCalibration>
+}
+
+// Common stage micrometer: 1 mm divided into 100 divisions of 10 µm
+const DEFAULT_KNOWN_UM = 100
+
+/**
+ * Picks the active µm-per-pixel profile for this page's objective and
+ * creates new ones, either by clicking two points a known distance apart on
+ * a stage micrometer image or by typing the value.
+ */
+export function CalibrationManager({ objective, calibration }: CalibrationManagerProps) {
+  const { isDarkMode } = useTheme()
+  const [creating, setCreating] = useState(false)
+  const [name, setName] = useState("")
+  const [micrometerUrl, setMicrometerUrl] = useState("")
+  const [natural, setNatural] = useState({ width: 0, height: 0 })
+  const [points, setPoints] = useState<Point[]>([])
+  const [knownUm, setKnownUm] = useState(DEFAULT_KNOWN_UM)
+  const [manualValue, setManualValue] = useState("")
+  const [loadError, setLoadError] = useState("")
+
+  useEffect(() => () => {
+    if (micrometerUrl) URL.revokeObjectURL(micrometerUrl)
+  }, [micrometerUrl])
+
+  const measured = points.length === 2 ? umPerPixelFromPoints(points[0], points[1], knownUm) : null
+  const umPerPixel = manualValue ? Number(manualValue) : measured
+
+  const resetForm = () => {
+    setCreating(false)
+    setName("")
+    setMicrometerUrl("")
+    setPoints([])
+    setKnownUm(DEFAULT_KNOWN_UM)
+    setManualValue("")
+    setLoadError("")
+  }
+
+  // TIFF and HEIC micrometer images are decoded like uploads; the first page is shown
+  const loadMicrometer = async (file: File) => {
+    setLoadError("")
+    try {
+      const image = decodableFormat(file) ? (await decodeImageFile(file))[0].file : file
+      setMicrometerUrl(URL.createObjectURL(image))
+      setPoints([])
+    } catch (err) {
+      setLoadError(err instanceof Error ? err.message : String(err))
+    }
+  }
+
+  const handleSave = () => {
+    if (!umPerPixel || !(umPerPixel > 0)) return
+    calibration.add({
+      id: `cal-${Date.now()}`,
+      name: name.trim() || `${objective} profile`,
+      objective,
+      umPerPixel,
+      createdAt: new Date().toISOString(),
+    })
+    resetForm()
+  }
+
+  const handleImageClick = (e: React.MouseEvent<HTMLImageElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect()
+    const point = {
+      x: ((e.clientX - rect.left) / rect.width) * natural.width,
+      y: ((e.clientY - rect.top) / rect.height) * natural.height,
+    }
+    setPoints((prev) => (prev.length >= 2 ? [point] : [...prev, point]))
+  }
+
+  const inputClass = `w-full text-sm rounded-lg border-2 px-2 py-1.5 ${isDarkMode ? "bg-black text-white border-white/20" : "bg-white text-black border-black/20"}`
+  const labelClass = `block text-xs font-bold mb-1 ${isDarkMode ? "text-white/60" : "text-black/60"}`
+  const buttonClass = `inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-bold border-2 ${isDarkMode ? "border-white/20 text-white hover:border-white" : "border-black/20 text-black hover:border-black"} transition-colors disabled:opacity-40`
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <div className={`w-1 h-5 ${isDarkMode ? "bg-white" : "bg-black"} rounded-full`}></div>
+          <span className={`text-sm font-bold ${isDarkMode ? "text-white" : "text-black"} uppercase tracking-wider`}>Calibration ({objective})</span>
+        </div>
+        {!creating && (
+          <button type="button" onClick={() => setCreating(true)} className={buttonClass}>
+            <Plus className="w-3.5 h-3.5" />
+            New profile
+          </button>
+        )}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <select
+          value={calibration.active?.id ?? ""}
+          onChange={(e) => calibration.select(e.target.value || null)}
+          className={inputClass}
+        >
+          <option value="">Uncalibrated (pixels)</option>
+          {calibration.profiles.map((profile) => (
+            <option key={profile.id} value={profile.id}>
+              {profile.name} • {profile.umPerPixel.toFixed(4)} µm/px
+            </option>
+          ))}
+        </select>
+        {calibration.active && (
+          <button
+            type="button"
+            onClick={() => calibration.remove(calibration.active!.id)}
+            className={buttonClass}
+            aria-label="Delete profile"
+            title="Delete profile"
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+          </button>
+        )}
+      </div>
+
+      {creating && (
+        <div className={`space-y-3 border-2 ${isDarkMode ? "border-white/20" : "border-black/20"} rounded-xl p-3`}>
+          <label className="block">
+            <span className={labelClass}>Profile name (microscope / camera)</span>
+            <input value={name} onChange={(e) => setName(e.target.value)} placeholder={`${objective} profile`} className={inputClass} />
+          </label>
+
+          <label className="block">
+            <span className={labelClass}>Stage micrometer image</span>
+            <input
+              type="file"
+              accept={UPLOAD_ACCEPT}
+              onChange={(e) => {
+                const file = e.target.files?.[0]
+                e.target.value = ""
+                if (file) loadMicrometer(file)
+              }}
+              className={`w-full text-xs ${isDarkMode ? "text-white/60" : "text-black/60"}`}
+            />
+          </label>
+          {loadError && <p className="text-xs font-medium text-red-500">{loadError}</p>}
+
+          {micrometerUrl && (
+            <div className="space-y-2">
+              <div className="relative">
+                <img
+                  src={micrometerUrl}
+                  alt="Stage micrometer"
+                  onLoad={(e) => setNatural({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+                  onClick={handleImageClick}
+                  className="w-full rounded-lg cursor-crosshair"
+                />
+                {natural.width > 0 && (
+                  <svg
+                    viewBox={`0 0 ${natural.width} ${natural.height}`}
+                    preserveAspectRatio="none"
+                    className="absolute inset-0 w-full h-full pointer-events-none"
+                  >
+                    {points.length === 2 && (
+                      <line
+                        x1={points[0].x}
+                        y1={points[0].y}
+                        x2={points[1].x}
+                        y2={points[1].y}
+                        stroke="#f97316"
+                        strokeWidth={natural.width / 300}
+                      />
+                    )}
+                    {points.map((point, index) => (
+                      <circle key={index} cx={point.x} cy={point.y} r={natural.width / 150} fill="#f97316" />
+                    ))}
+                  </svg>
+                )}
+              </div>
+              <p className={`text-xs ${isDarkMode ? "text-white/50" : "text-black/50"}`}>
+                Click two graduation marks a known distance apart{points.length === 2 && " • click again to start over"}
+              </p>
+              <label className="block">
+                <span className={labelClass}>Distance between the points (µm)</span>
+                <input
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={knownUm}
+                  onChange={(e) => setKnownUm(Number(e.target.value))}
+                  className={inputClass}
+                />
+              </label>
+            </div>
+          )}
+
+          <label className="block">
+            <span className={labelClass}>Or enter µm per pixel directly</span>
+            <input
+              type="number"
+              min={0}
+              step="any"
+              value={manualValue}
+              onChange={(e) => setManualValue(e.target.value)}
+              placeholder={measured ? measured.toFixed(4) : "e.g. 0.6250"}
+              className={inputClass}
+            />
+          </label>
+
+          <div className="flex items-center gap-2">
+            <button type="button" onClick={handleSave} disabled={!umPerPixel || !(umPerPixel > 0)} className={buttonClass}>
+              <Ruler className="w-3.5 h-3.5" />
+              Save {umPerPixel && umPerPixel > 0 ? `${umPerPixel.toFixed(4)} µm/px` : "profile"}
+            </button>
+            <button
+              type="button"
+              onClick={resetForm}
+              className={`ml-auto text-xs font-semibold ${isDarkMode ? "text-white/60 hover:text-white" : "text-black/60 hover:text-black"} transition-colors`}
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
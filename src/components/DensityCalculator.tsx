@@ -0,0 +1,122 @@
+"use client"
+
+import { Droplet } from "lucide-react"
+import { useTheme } from "@/components/ThemeProvider"
+import {
+  SMEAR_PRESETS,
+  formatDensity,
+  type DensityEstimate,
+  type DensitySettings,
+  type SmearType,
+} from "@/lib/density"
+
+interface DensityCalculatorProps {
+  settings: DensitySettings
+  onChange: (settings: DensitySettings) => void
+  /** Estimate for the image currently shown */
+  current: DensityEstimate | null
+  /** Estimate over every finished image; only shown for batches */
+  batch?: { estimate: DensityEstimate | null; images: number } | null
+}
+
+export function DensityCalculator({ settings, onChange, current, batch }: DensityCalculatorProps) {
+  const { isDarkMode } = useTheme()
+  const inputClass = `w-full text-sm rounded-lg border-2 px-2 py-1.5 ${isDarkMode ? "bg-black text-white border-white/20" : "bg-white text-black border-black/20"}`
+  const labelClass = `block text-xs font-bold mb-1 ${isDarkMode ? "text-white/60" : "text-black/60"}`
+
+  const setNumber = (key: "volumeUl" | "fieldsTotal" | "fieldsPerImage", value: string) => {
+    const parsed = Number(value)
+    onChange({ ...settings, [key]: Number.isFinite(parsed) ? parsed : 0 })
+  }
+
+  const renderEstimate = (title: string, estimate: DensityEstimate | null, images: number) => (
+    <div className={`border-2 ${isDarkMode ? "border-white/20" : "border-black/20"} rounded-xl p-3`}>
+      <p className={`text-xs ${isDarkMode ? "text-white/60" : "text-black/60"} uppercase tracking-wider font-bold`}>{title}</p>
+      {estimate ? (
+        <>
+          <p className={`text-2xl font-black ${isDarkMode ? "text-white" : "text-black"}`}>
+            {formatDensity(estimate.perMl)} <span className="text-sm font-bold">mf/mL</span>
+          </p>
+          <p className={`text-xs font-mono ${isDarkMode ? "text-white/60" : "text-black/60"}`}>
+            95% CI {formatDensity(estimate.lower)}–{formatDensity(estimate.upper)}
+          </p>
+          <p className={`mt-1 text-xs ${isDarkMode ? "text-white/50" : "text-black/50"}`}>
+            {estimate.count} mf in {estimate.fieldsAnalysed} of {settings.fieldsTotal} fields
+            {images > 1 && ` (${images} images)`} • {estimate.examinedVolumeUl.toFixed(1)} µL examined
+          </p>
+          {estimate.fieldsAnalysed > settings.fieldsTotal && (
+            <p className="mt-1 text-xs font-bold text-amber-500">More fields analysed than the smear has; counted as the whole smear</p>
+          )}
+        </>
+      ) : (
+        <p className={`text-xs ${isDarkMode ? "text-white/50" : "text-black/50"}`}>Enter a volume and field counts above zero</p>
+      )}
+    </div>
+  )
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Droplet className={`w-4 h-4 ${isDarkMode ? "text-white" : "text-black"}`} />
+        <h3 className={`text-sm font-bold ${isDarkMode ? "text-white" : "text-black"} uppercase tracking-wider`}>Microfilaraemia</h3>
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        <label>
+          <span className={labelClass}>Smear type</span>
+          <select
+            value={settings.smearType}
+            onChange={(e) => {
+              const smearType = e.target.value as SmearType
+              onChange({ ...settings, smearType, volumeUl: SMEAR_PRESETS[smearType].volumeUl })
+            }}
+            className={inputClass}
+          >
+            {(Object.keys(SMEAR_PRESETS) as SmearType[]).map((type) => (
+              <option key={type} value={type}>{SMEAR_PRESETS[type].label}</option>
+            ))}
+          </select>
+        </label>
+        <label>
+          <span className={labelClass}>Blood volume (µL)</span>
+          <input
+            type="number"
+            min={1}
+            step="any"
+            value={settings.volumeUl}
+            onChange={(e) => setNumber("volumeUl", e.target.value)}
+            className={inputClass}
+          />
+        </label>
+        <label>
+          <span className={labelClass}>Fields in whole smear</span>
+          <input
+            type="number"
+            min={1}
+            step={1}
+            value={settings.fieldsTotal}
+            onChange={(e) => setNumber("fieldsTotal", e.target.value)}
+            className={inputClass}
+          />
+        </label>
+        <label>
+          <span className={labelClass}>Fields per image</span>
+          <input
+            type="number"
+            min={1}
+            step={1}
+            value={settings.fieldsPerImage}
+            onChange={(e) => setNumber("fieldsPerImage", e.target.value)}
+            className={inputClass}
+          />
+        </label>
+      </div>
+      <div className={`grid ${batch ? "grid-cols-2" : "grid-cols-1"} gap-3`}>
+        {renderEstimate("This image", current, 1)}
+        {batch && renderEstimate("Whole batch", batch.estimate, batch.images)}
+      </div>
+      <p className={`text-xs ${isDarkMode ? "text-white/50" : "text-black/50"}`}>
+        Uses the reviewed count where a review exists. Each image is one field unless it is a stitched scan of several.
+      </p>
+    </div>
+  )
+}
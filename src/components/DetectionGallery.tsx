@@ -0,0 +1,207 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { ArrowDownWideNarrow, ArrowUpNarrowWide, ChevronLeft, ChevronRight, Hash, X } from "lucide-react"
+import { useTheme } from "@/components/ThemeProvider"
+import { cropDetection, loadImage } from "@/lib/canvas"
+import type { Detection } from "@/lib/detection"
+
+export interface GalleryItem {
+  id: number
+  bbox: Detection["bbox"]
+  confidence: number
+  label: string
+  /** Border colour, e.g. the review decision */
+  color?: string
+  /** Extra line under the label, e.g. the calibrated size */
+  detail?: string
+}
+
+type GallerySort = "confidence-desc" | "confidence-asc" | "id"
+
+interface DetectionGalleryProps {
+  /** Original image the boxes refer to */
+  src: string
+  items: GalleryItem[]
+  selectedId?: number | null
+  onSelect?: (id: number) => void
+}
+
+const THUMBNAIL_SIZE = 128
+const ZOOM_SIZE = 512
+// The zoomed view shows more surroundings than the thumbnail
+const ZOOM_PADDING = 0.75
+
+const SORTS: { value: GallerySort; label: string; icon: typeof Hash }[] = [
+  { value: "confidence-desc", label: "Highest", icon: ArrowDownWideNarrow },
+  { value: "confidence-asc", label: "Lowest", icon: ArrowUpNarrowWide },
+  { value: "id", label: "Number", icon: Hash },
+]
+
+/**
+ * Thumbnail grid of every box cropped from the original image, so a
+ * reviewer can confirm detections at a glance. Clicking a crop opens a
+ * magnified view that steps through the grid with the arrow keys.
+ */
+export function DetectionGallery({ src, items, selectedId, onSelect }: DetectionGalleryProps) {
+  const { isDarkMode } = useTheme()
+  const [image, setImage] = useState<HTMLImageElement | null>(null)
+  const [sort, setSort] = useState<GallerySort>("confidence-desc")
+  const [zoomedId, setZoomedId] = useState<number | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    setImage(null)
+    loadImage(src)
+      .then((loaded) => {
+        if (!cancelled) setImage(loaded)
+      })
+      .catch((err) => console.error(err))
+    return () => {
+      cancelled = true
+    }
+  }, [src])
+
+  const sorted = useMemo(() => {
+    const next = [...items]
+    if (sort === "id") return next.sort((a, b) => a.id - b.id)
+    return next.sort((a, b) => (sort === "confidence-desc" ? b.confidence - a.confidence : a.confidence - b.confidence))
+  }, [items, sort])
+
+  // Crops depend only on the image and the boxes, not on the sort order
+  const thumbnails = useMemo(() => {
+    if (!image) return new Map<number, string>()
+    return new Map(items.map((item) => [item.id, cropDetection(image, item.bbox, THUMBNAIL_SIZE)]))
+  }, [image, items])
+
+  const zoomIndex = sorted.findIndex((item) => item.id === zoomedId)
+  const zoomed = zoomIndex >= 0 ? sorted[zoomIndex] : null
+  const zoomedCrop = useMemo(
+    () => (image && zoomed ? cropDetection(image, zoomed.bbox, ZOOM_SIZE, ZOOM_PADDING) : null),
+    [image, zoomed]
+  )
+
+  const step = (delta: number) => {
+    if (zoomIndex < 0 || sorted.length === 0) return
+    const next = sorted[(zoomIndex + delta + sorted.length) % sorted.length]
+    setZoomedId(next.id)
+    onSelect?.(next.id)
+  }
+
+  useEffect(() => {
+    if (zoomedId === null) return
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape") setZoomedId(null)
+      else if (e.key === "ArrowRight") step(1)
+      else if (e.key === "ArrowLeft") step(-1)
+    }
+    window.addEventListener("keydown", handleKey)
+    return () => window.removeEventListener("keydown", handleKey)
+  })
+
+  const buttonClass = (active: boolean) => `inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-bold border-2 ${
+    active
+      ? isDarkMode ? "bg-white text-black border-white" : "bg-black text-white border-black"
+      : isDarkMode ? "border-white/20 text-white hover:border-white" : "border-black/20 text-black hover:border-black"
+  } transition-colors`
+
+  if (items.length === 0) return null
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <div className={`w-1 h-5 ${isDarkMode ? "bg-white" : "bg-black"} rounded-full`}></div>
+          <h3 className={`text-sm font-bold ${isDarkMode ? "text-white" : "text-black"} uppercase tracking-wider`}>
+            Detection Gallery ({items.length})
+          </h3>
+        </div>
+        <div className="flex gap-1">
+          {SORTS.map(({ value, label, icon: Icon }) => (
+            <button key={value} type="button" onClick={() => setSort(value)} className={buttonClass(sort === value)}>
+              <Icon className="w-3.5 h-3.5" />
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 sm:grid-cols-4 lg:grid-cols-5 gap-2 max-h-96 overflow-y-auto pr-1">
+        {sorted.map((item) => (
+          <button
+            key={item.id}
+            type="button"
+            onClick={() => {
+              setZoomedId(item.id)
+              onSelect?.(item.id)
+            }}
+            className={`relative aspect-square rounded-lg overflow-hidden border-2 ${
+              item.id === selectedId ? "border-orange-500" : isDarkMode ? "border-white/20 hover:border-white" : "border-black/20 hover:border-black"
+            } transition-colors`}
+            style={item.color && item.id !== selectedId ? { borderColor: item.color } : undefined}
+            title={`#${item.id} ${item.label}`}
+          >
+            {thumbnails.get(item.id) ? (
+              <img src={thumbnails.get(item.id)} alt={`Detection ${item.id}`} className="w-full h-full object-cover" />
+            ) : (
+              <div className={`w-full h-full animate-pulse ${isDarkMode ? "bg-white/10" : "bg-black/10"}`} />
+            )}
+            <span className="absolute bottom-0 inset-x-0 flex justify-between px-1.5 py-0.5 bg-black/60 text-white text-[10px] font-mono font-bold">
+              <span>#{item.id}</span>
+              <span>{(item.confidence * 100).toFixed(0)}%</span>
+            </span>
+          </button>
+        ))}
+      </div>
+      <p className={`text-xs ${isDarkMode ? "text-white/50" : "text-black/50"}`}>
+        Click a crop to magnify it • ← → step through • Esc closes
+      </p>
+
+      {zoomed && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 p-4" onClick={() => setZoomedId(null)}>
+          <div
+            className={`relative w-full max-w-lg space-y-3 rounded-2xl p-4 ${isDarkMode ? "bg-black border-2 border-white/20" : "bg-white"}`}
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="flex items-center justify-between gap-2">
+              <p className={`text-sm font-bold ${isDarkMode ? "text-white" : "text-black"}`}>
+                DETECTION #{zoomed.id} • {(zoomed.confidence * 100).toFixed(1)}%
+              </p>
+              <button
+                type="button"
+                onClick={() => setZoomedId(null)}
+                className={isDarkMode ? "text-white/60 hover:text-white" : "text-black/60 hover:text-black"}
+                aria-label="Close"
+              >
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            {zoomedCrop && (
+              <img
+                src={zoomedCrop}
+                alt={`Detection ${zoomed.id} magnified`}
+                className="w-full aspect-square rounded-lg border-2"
+                style={{ borderColor: zoomed.color ?? "#22c55e" }}
+              />
+            )}
+            <div className="flex items-center justify-between gap-2">
+              <button type="button" onClick={() => step(-1)} className={buttonClass(false)} aria-label="Previous detection">
+                <ChevronLeft className="w-3.5 h-3.5" />
+              </button>
+              <div className="text-center">
+                <p className={`text-xs font-bold uppercase tracking-wide ${isDarkMode ? "text-white/60" : "text-black/60"}`}>{zoomed.label}</p>
+                {zoomed.detail && <p className={`text-xs ${isDarkMode ? "text-white/50" : "text-black/50"}`}>{zoomed.detail}</p>}
+                <p className={`text-xs ${isDarkMode ? "text-white/40" : "text-black/40"}`}>
+                  {zoomIndex + 1} / {sorted.length}
+                </p>
+              </div>
+              <button type="button" onClick={() => step(1)} className={buttonClass(false)} aria-label="Next detection">
+                <ChevronRight className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,155 @@
+"use client"
+
+import { Check, X, Undo2, Redo2, Hand, SquarePlus, CheckCheck, Trash2 } from "lucide-react"
+import { useTheme } from "@/components/ThemeProvider"
+import type { ViewerTool } from "@/components/DetectionViewer"
+import type { ReviewBox, ReviewDecision, ReviewSummary } from "@/lib/review"
+
+export const DECISION_COLORS: Record<ReviewDecision | "manual", string> = {
+  pending: "#22c55e",
+  accepted: "#3b82f6",
+  rejected: "#ef4444",
+  manual: "#8b5cf6",
+}
+
+export function reviewBoxColor(box: ReviewBox): string {
+  return box.source === "manual" ? DECISION_COLORS.manual : DECISION_COLORS[box.decision]
+}
+
+interface ReviewToolbarProps {
+  tool: ViewerTool
+  onToolChange: (tool: ViewerTool) => void
+  canUndo: boolean
+  canRedo: boolean
+  onUndo: () => void
+  onRedo: () => void
+  onAcceptRemaining: () => void
+  onDiscard: () => void
+  onDone: () => void
+  summary: ReviewSummary
+}
+
+export function ReviewToolbar({
+  tool,
+  onToolChange,
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
+  onAcceptRemaining,
+  onDiscard,
+  onDone,
+  summary,
+}: ReviewToolbarProps) {
+  const { isDarkMode } = useTheme()
+  const buttonClass = (active = false) =>
+    `inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-bold border-2 transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+      active
+        ? isDarkMode ? "bg-white text-black border-white" : "bg-black text-white border-black"
+        : isDarkMode ? "border-white/20 text-white hover:border-white" : "border-black/20 text-black hover:border-black"
+    }`
+
+  return (
+    <div className={`space-y-3 border-2 border-dashed ${isDarkMode ? "border-white/30" : "border-black/30"} rounded-2xl p-4`}>
+      <div className="flex flex-wrap items-center gap-2">
+        <button type="button" className={buttonClass(tool === "pan")} onClick={() => onToolChange("pan")} title="Select, move and resize boxes">
+          <Hand className="w-3.5 h-3.5" /> Select
+        </button>
+        <button type="button" className={buttonClass(tool === "draw")} onClick={() => onToolChange("draw")} title="Drag on the image to add a missed detection">
+          <SquarePlus className="w-3.5 h-3.5" /> Draw box
+        </button>
+        <div className="flex-1" />
+        <button type="button" className={buttonClass()} onClick={onUndo} disabled={!canUndo} title="Undo (Ctrl+Z)" aria-label="Undo">
+          <Undo2 className="w-3.5 h-3.5" />
+        </button>
+        <button type="button" className={buttonClass()} onClick={onRedo} disabled={!canRedo} title="Redo (Ctrl+Shift+Z)" aria-label="Redo">
+          <Redo2 className="w-3.5 h-3.5" />
+        </button>
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <button type="button" className={buttonClass()} onClick={onAcceptRemaining} disabled={summary.pending === 0}>
+          <CheckCheck className="w-3.5 h-3.5" /> Accept remaining ({summary.pending})
+        </button>
+        <button type="button" className={buttonClass()} onClick={onDiscard}>
+          <Trash2 className="w-3.5 h-3.5" /> Discard review
+        </button>
+        <div className="flex-1" />
+        <button type="button" className={buttonClass(true)} onClick={onDone}>
+          Done
+        </button>
+      </div>
+      <p className={`text-xs ${isDarkMode ? "text-white/50" : "text-black/50"}`}>
+        A accept • R reject • Del remove • drag the selected box or its corners to correct it
+      </p>
+    </div>
+  )
+}
+
+interface ReviewBoxCardProps {
+  box: ReviewBox
+  /** Hides the decision buttons outside review mode */
+  readOnly?: boolean
+  /** Physical box size, when a calibration is active */
+  size?: string
+  onDecision: (decision: ReviewDecision) => void
+  onRemove: () => void
+}
+
+export function ReviewBoxCard({ box, readOnly = false, size, onDecision, onRemove }: ReviewBoxCardProps) {
+  const { isDarkMode } = useTheme()
+  const color = reviewBoxColor(box)
+
+  return (
+    <div className="flex items-center gap-3">
+      <div className="w-1 h-10 rounded-full shrink-0" style={{ backgroundColor: color }} />
+      <div className="flex-1 min-w-0">
+        <p className={`text-sm font-bold ${isDarkMode ? "text-white" : "text-black"} ${box.decision === "rejected" ? "line-through opacity-60" : ""}`}>
+          {box.source === "manual" ? "MANUAL" : "DETECTION"} #{box.id}
+        </p>
+        <p className={`text-xs ${isDarkMode ? "text-white/60" : "text-black/60"} uppercase tracking-wide`}>
+          {box.source === "manual" ? "Added by reviewer" : `${(box.confidence * 100).toFixed(1)}% • ${box.decision}`}
+          {size && <span className="normal-case"> • {size}</span>}
+        </p>
+      </div>
+      {readOnly ? null : box.source === "manual" ? (
+        <button
+          type="button"
+          onClick={(e) => {
+            e.stopPropagation()
+            onRemove()
+          }}
+          className={`p-1.5 rounded-lg ${isDarkMode ? "hover:bg-white/10 text-white" : "hover:bg-black/10 text-black"}`}
+          aria-label={`Remove manual box #${box.id}`}
+        >
+          <Trash2 className="w-4 h-4" />
+        </button>
+      ) : (
+        <div className="flex gap-1">
+          {([
+            ["accepted", Check, "Accept"],
+            ["rejected", X, "Reject"],
+          ] as const).map(([decision, Icon, label]) => (
+            <button
+              key={decision}
+              type="button"
+              onClick={(e) => {
+                e.stopPropagation()
+                onDecision(box.decision === decision ? "pending" : decision)
+              }}
+              className="p-1.5 rounded-lg border-2 transition-colors"
+              style={
+                box.decision === decision
+                  ? { backgroundColor: DECISION_COLORS[decision], borderColor: DECISION_COLORS[decision], color: "white" }
+                  : { borderColor: `${DECISION_COLORS[decision]}66`, color: DECISION_COLORS[decision] }
+              }
+              aria-label={`${label} detection #${box.id}`}
+              aria-pressed={box.decision === decision}
+            >
+              <Icon className="w-4 h-4" />
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,370 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from "react"
+import { ZoomIn, ZoomOut, Maximize } from "lucide-react"
+import { useTheme } from "@/components/ThemeProvider"
+import { ScaleBar } from "@/components/ScaleBar"
+import type { Detection } from "@/lib/detection"
+
+type BBox = Detection["bbox"]
+
+export interface ViewerBox {
+  id: number
+  bbox: BBox
+  label?: string
+  color?: string
+  dashed?: boolean
+}
+
+export type ViewerTool = "pan" | "draw"
+
+type Handle = "nw" | "ne" | "sw" | "se"
+
+interface Point {
+  x: number
+  y: number
+}
+
+type DragState =
+  | { kind: "pan"; startX: number; startY: number; originX: number; originY: number; moved: boolean }
+  | { kind: "resize"; id: number; anchor: Point }
+  | { kind: "move"; id: number; start: Point; bbox: BBox }
+  | { kind: "draw"; start: Point }
+
+export interface ViewTransform {
+  scale: number
+  x: number
+  y: number
+}
+
+interface DetectionViewerProps {
+  src: string
+  /** Size of the coordinate space the boxes are expressed in (`image_info`) */
+  imageWidth: number
+  imageHeight: number
+  boxes: ViewerBox[]
+  highlightedId?: number | null
+  onHover?: (id: number | null) => void
+  onSelect?: (id: number | null) => void
+  /** Enables resize handles on `selectedId`, moving it, and drawing with the "draw" tool */
+  editable?: boolean
+  selectedId?: number | null
+  tool?: ViewerTool
+  onBoxChange?: (id: number, bbox: BBox) => void
+  onBoxCreate?: (bbox: BBox) => void
+  /** Controlled pan/zoom, for keeping several viewers of the same image in sync */
+  view?: ViewTransform
+  onViewChange?: (view: ViewTransform) => void
+  /** Draws a scale bar when the image is calibrated */
+  umPerPixel?: number | null
+  className?: string
+}
+
+const MIN_ZOOM_FACTOR = 0.5
+const MAX_ZOOM = 20
+const DEFAULT_BOX_COLOR = "#22c55e"
+const HIGHLIGHT_COLOR = "#f97316"
+// Pointer travel (px) below which a press counts as a click rather than a pan
+const CLICK_TOLERANCE = 3
+// Smallest box (image px) accepted when drawing
+const MIN_BOX_SIZE = 3
+const HANDLES: Handle[] = ["nw", "ne", "sw", "se"]
+
+function boxFromPoints(a: Point, b: Point): BBox {
+  return { x1: Math.min(a.x, b.x), y1: Math.min(a.y, b.y), x2: Math.max(a.x, b.x), y2: Math.max(a.y, b.y) }
+}
+
+/**
+ * Zoomable, pannable view of an image with detection boxes drawn client-side
+ * from `Detection.bbox`, so a box can be inspected at any magnification.
+ */
+export function DetectionViewer({
+  src,
+  imageWidth,
+  imageHeight,
+  boxes,
+  highlightedId = null,
+  onHover,
+  onSelect,
+  editable = false,
+  selectedId = null,
+  tool = "pan",
+  onBoxChange,
+  onBoxCreate,
+  view: controlledView,
+  onViewChange,
+  umPerPixel = null,
+  className = "h-96",
+}: DetectionViewerProps) {
+  const { isDarkMode } = useTheme()
+  const containerRef = useRef<HTMLDivElement>(null)
+  const dragRef = useRef<DragState | null>(null)
+  // Box being resized, moved or drawn; committed through the callbacks on release
+  const [draft, setDraft] = useState<{ id: number | null; bbox: BBox } | null>(null)
+  const [ownView, setOwnView] = useState<ViewTransform>({ scale: 1, x: 0, y: 0 })
+  const view = controlledView ?? ownView
+  // Latest transform for functional updates, which may run before a controlled parent re-renders
+  const viewRef = useRef(view)
+  const [fitScale, setFitScale] = useState(1)
+  const [isPanning, setIsPanning] = useState(false)
+
+  useEffect(() => {
+    viewRef.current = view
+  }, [view])
+
+  const setView = useCallback((update: ViewTransform | ((prev: ViewTransform) => ViewTransform)) => {
+    const next = typeof update === "function" ? update(viewRef.current) : update
+    viewRef.current = next
+    setOwnView(next)
+    onViewChange?.(next)
+  }, [onViewChange])
+
+  const fitToScreen = useCallback(() => {
+    const container = containerRef.current
+    if (!container || imageWidth <= 0 || imageHeight <= 0) return
+    const { clientWidth, clientHeight } = container
+    const scale = Math.min(clientWidth / imageWidth, clientHeight / imageHeight)
+    setFitScale(scale)
+    setView({
+      scale,
+      x: (clientWidth - imageWidth * scale) / 2,
+      y: (clientHeight - imageHeight * scale) / 2,
+    })
+  }, [imageWidth, imageHeight, setView])
+
+  // Re-fit whenever the image or the container size changes
+  useEffect(() => {
+    fitToScreen()
+    const container = containerRef.current
+    if (!container) return
+    const observer = new ResizeObserver(() => fitToScreen())
+    observer.observe(container)
+    return () => observer.disconnect()
+  }, [src, fitToScreen])
+
+  const zoomAt = useCallback((factor: number, clientX?: number, clientY?: number) => {
+    const container = containerRef.current
+    if (!container) return
+    const rect = container.getBoundingClientRect()
+    const cx = clientX !== undefined ? clientX - rect.left : rect.width / 2
+    const cy = clientY !== undefined ? clientY - rect.top : rect.height / 2
+    setView((prev) => {
+      const minScale = fitScale * MIN_ZOOM_FACTOR
+      const scale = Math.min(MAX_ZOOM, Math.max(minScale, prev.scale * factor))
+      const ratio = scale / prev.scale
+      return { scale, x: cx - (cx - prev.x) * ratio, y: cy - (cy - prev.y) * ratio }
+    })
+  }, [fitScale, setView])
+
+  // Wheel listener must be non-passive so the page does not scroll while zooming
+  useEffect(() => {
+    const container = containerRef.current
+    if (!container) return
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault()
+      zoomAt(e.deltaY < 0 ? 1.15 : 1 / 1.15, e.clientX, e.clientY)
+    }
+    container.addEventListener("wheel", handleWheel, { passive: false })
+    return () => container.removeEventListener("wheel", handleWheel)
+  }, [zoomAt])
+
+  const toImagePoint = (clientX: number, clientY: number): Point => {
+    const rect = containerRef.current!.getBoundingClientRect()
+    return {
+      x: Math.min(imageWidth, Math.max(0, (clientX - rect.left - view.x) / view.scale)),
+      y: Math.min(imageHeight, Math.max(0, (clientY - rect.top - view.y) / view.scale)),
+    }
+  }
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.button !== 0) return
+    const target = e.target instanceof Element ? e.target : null
+    const handle = target?.getAttribute("data-handle") as Handle | null
+    const boxIdAttr = target?.getAttribute("data-box-id")
+    const boxId = boxIdAttr != null ? Number(boxIdAttr) : null
+    const selectedBox = boxes.find((box) => box.id === selectedId)
+    e.currentTarget.setPointerCapture(e.pointerId)
+
+    if (editable && handle && selectedBox) {
+      const { x1, y1, x2, y2 } = selectedBox.bbox
+      // Resizing keeps the corner opposite the grabbed handle fixed
+      const anchor = { x: handle.includes("w") ? x2 : x1, y: handle.includes("n") ? y2 : y1 }
+      dragRef.current = { kind: "resize", id: selectedBox.id, anchor }
+    } else if (editable && selectedBox && boxId === selectedBox.id) {
+      dragRef.current = { kind: "move", id: selectedBox.id, start: toImagePoint(e.clientX, e.clientY), bbox: selectedBox.bbox }
+    } else if (editable && tool === "draw" && boxId === null) {
+      dragRef.current = { kind: "draw", start: toImagePoint(e.clientX, e.clientY) }
+    } else {
+      dragRef.current = { kind: "pan", startX: e.clientX, startY: e.clientY, originX: view.x, originY: view.y, moved: false }
+    }
+  }
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current
+    if (!drag) return
+    if (drag.kind === "pan") {
+      const dx = e.clientX - drag.startX
+      const dy = e.clientY - drag.startY
+      if (!drag.moved && Math.hypot(dx, dy) < CLICK_TOLERANCE) return
+      if (!drag.moved) setIsPanning(true)
+      drag.moved = true
+      setView((prev) => ({ ...prev, x: drag.originX + dx, y: drag.originY + dy }))
+      return
+    }
+
+    const point = toImagePoint(e.clientX, e.clientY)
+    if (drag.kind === "resize") {
+      setDraft({ id: drag.id, bbox: boxFromPoints(drag.anchor, point) })
+    } else if (drag.kind === "move") {
+      const { x1, y1, x2, y2 } = drag.bbox
+      const dx = Math.min(imageWidth - x2, Math.max(-x1, point.x - drag.start.x))
+      const dy = Math.min(imageHeight - y2, Math.max(-y1, point.y - drag.start.y))
+      setDraft({ id: drag.id, bbox: { x1: x1 + dx, y1: y1 + dy, x2: x2 + dx, y2: y2 + dy } })
+    } else {
+      setDraft({ id: null, bbox: boxFromPoints(drag.start, point) })
+    }
+  }
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current
+    dragRef.current = null
+    setIsPanning(false)
+    setDraft(null)
+    if (!drag) return
+
+    if (drag.kind === "pan") {
+      if (drag.moved) return
+      // Pointer capture retargets events to the container, so hit-test the press position
+      const target = document.elementFromPoint(e.clientX, e.clientY)
+      const boxId = target instanceof Element ? target.getAttribute("data-box-id") : null
+      onSelect?.(boxId !== null ? Number(boxId) : null)
+      return
+    }
+
+    if (!draft) return
+    const { x1, y1, x2, y2 } = draft.bbox
+    if (x2 - x1 < MIN_BOX_SIZE || y2 - y1 < MIN_BOX_SIZE) return
+    if (drag.kind === "draw") {
+      onBoxCreate?.(draft.bbox)
+    } else {
+      onBoxChange?.(drag.id, draft.bbox)
+    }
+  }
+
+  const handlePointerCancel = () => {
+    dragRef.current = null
+    setIsPanning(false)
+    setDraft(null)
+  }
+
+  const strokeWidth = 2 / view.scale
+  const fontSize = 12 / view.scale
+
+  return (
+    <div className={`relative w-full ${className} ${isDarkMode ? "bg-white/5" : "bg-black/5"} rounded-xl overflow-hidden border-2 ${isDarkMode ? "border-white/20" : "border-black/20"} shadow-lg`}>
+      <div
+        ref={containerRef}
+        className={`absolute inset-0 touch-none ${isPanning ? "cursor-grabbing" : editable && tool === "draw" ? "cursor-crosshair" : "cursor-grab"}`}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerCancel}
+      >
+        <svg
+          width={imageWidth}
+          height={imageHeight}
+          viewBox={`0 0 ${imageWidth} ${imageHeight}`}
+          className="absolute top-0 left-0 origin-top-left select-none"
+          style={{ transform: `translate(${view.x}px, ${view.y}px) scale(${view.scale})` }}
+        >
+          <image href={src} x={0} y={0} width={imageWidth} height={imageHeight} preserveAspectRatio="none" />
+          {boxes.map((box) => {
+            const { x1, y1, x2, y2 } = draft && draft.id === box.id ? draft.bbox : box.bbox
+            const isHighlighted = box.id === highlightedId || box.id === draft?.id
+            const color = isHighlighted ? HIGHLIGHT_COLOR : box.color ?? DEFAULT_BOX_COLOR
+            return (
+              <g key={box.id}>
+                <rect
+                  data-box-id={box.id}
+                  x={x1}
+                  y={y1}
+                  width={x2 - x1}
+                  height={y2 - y1}
+                  fill={isHighlighted ? `${HIGHLIGHT_COLOR}33` : "transparent"}
+                  stroke={color}
+                  strokeWidth={isHighlighted ? strokeWidth * 2 : strokeWidth}
+                  strokeDasharray={box.dashed ? `${strokeWidth * 3} ${strokeWidth * 2}` : undefined}
+                  className={editable && box.id === selectedId ? "cursor-move" : "cursor-pointer"}
+                  onPointerEnter={() => onHover?.(box.id)}
+                  onPointerLeave={() => onHover?.(null)}
+                />
+                {box.label && (
+                  <text
+                    x={x1}
+                    y={y1 - strokeWidth * 2}
+                    fontSize={fontSize}
+                    fontWeight="bold"
+                    fill={color}
+                    className="pointer-events-none"
+                  >
+                    {box.label}
+                  </text>
+                )}
+                {editable && box.id === selectedId && HANDLES.map((handle) => (
+                  <rect
+                    key={handle}
+                    data-handle={handle}
+                    x={(handle.includes("w") ? x1 : x2) - strokeWidth * 3}
+                    y={(handle.includes("n") ? y1 : y2) - strokeWidth * 3}
+                    width={strokeWidth * 6}
+                    height={strokeWidth * 6}
+                    fill="white"
+                    stroke={HIGHLIGHT_COLOR}
+                    strokeWidth={strokeWidth}
+                    className={handle === "nw" || handle === "se" ? "cursor-nwse-resize" : "cursor-nesw-resize"}
+                  />
+                ))}
+              </g>
+            )
+          })}
+          {draft && draft.id === null && (
+            <rect
+              x={draft.bbox.x1}
+              y={draft.bbox.y1}
+              width={draft.bbox.x2 - draft.bbox.x1}
+              height={draft.bbox.y2 - draft.bbox.y1}
+              fill={`${HIGHLIGHT_COLOR}22`}
+              stroke={HIGHLIGHT_COLOR}
+              strokeWidth={strokeWidth}
+              strokeDasharray={`${strokeWidth * 3} ${strokeWidth * 2}`}
+            />
+          )}
+        </svg>
+      </div>
+
+      {/* Zoom controls */}
+      <div className="absolute bottom-2 right-2 flex gap-1">
+        {[
+          { icon: ZoomIn, label: "Zoom in", action: () => zoomAt(1.25) },
+          { icon: ZoomOut, label: "Zoom out", action: () => zoomAt(1 / 1.25) },
+          { icon: Maximize, label: "Fit to screen", action: fitToScreen },
+        ].map(({ icon: Icon, label, action }) => (
+          <button
+            key={label}
+            type="button"
+            onClick={action}
+            className={`p-2 rounded-lg shadow ${isDarkMode ? "bg-black/70 text-white hover:bg-black" : "bg-white/80 text-black hover:bg-white"}`}
+            aria-label={label}
+            title={label}
+          >
+            <Icon className="w-4 h-4" />
+          </button>
+        ))}
+      </div>
+      {umPerPixel && <ScaleBar umPerPixel={umPerPixel} displayScale={view.scale} className="absolute bottom-10 left-2" />}
+      <span className={`absolute bottom-2 left-2 text-xs font-mono px-2 py-1 rounded ${isDarkMode ? "bg-black/70 text-white" : "bg-white/80 text-black"}`}>
+        {((view.scale / fitScale) * 100).toFixed(0)}%
+      </span>
+    </div>
+  )
+}
@@ -0,0 +1,89 @@
+"use client"
+
+import { ListOrdered } from "lucide-react"
+import { useTheme } from "@/components/ThemeProvider"
+import type { Differential, DifferentialSettings } from "@/lib/differential"
+
+interface DifferentialCardProps {
+  differential: Differential
+  settings: DifferentialSettings
+  onSettingsChange: (settings: DifferentialSettings) => void
+  colorOf: (name: string) => string
+}
+
+/** Ranked species differential for one field, with the cut-offs that decide when it is ambiguous. */
+export function DifferentialCard({ differential, settings, onSettingsChange, colorOf }: DifferentialCardProps) {
+  const { isDarkMode } = useTheme()
+  const muted = isDarkMode ? "text-white/60" : "text-black/60"
+  const inputClass = `w-full text-sm rounded-lg border-2 px-2 py-1.5 ${isDarkMode ? "bg-black text-white border-white/20" : "bg-white text-black border-black/20"}`
+  const labelClass = `block text-xs font-bold mb-1 ${muted}`
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <ListOrdered className={`w-4 h-4 ${isDarkMode ? "text-white" : "text-black"}`} />
+        <h3 className={`text-sm font-bold ${isDarkMode ? "text-white" : "text-black"} uppercase tracking-wider`}>Differential</h3>
+      </div>
+
+      {differential.ranked.length === 0 ? (
+        <p className={`text-sm ${muted}`}>No species pixels in this field</p>
+      ) : (
+        <ol className="space-y-2">
+          {differential.ranked.map((entry, index) => {
+            const color = colorOf(entry.name)
+            return (
+              <li key={entry.name} className={`border-2 ${isDarkMode ? "border-white/20" : "border-black/20"} rounded-xl p-3 space-y-2`}>
+                <div className="flex items-center justify-between gap-2">
+                  <span className={`text-sm font-bold truncate ${isDarkMode ? "text-white" : "text-black"}`}>
+                    {index + 1}. {entry.name}
+                  </span>
+                  <span className="text-sm font-mono font-bold px-2 py-1 rounded-lg" style={{ backgroundColor: `${color}20`, color }}>
+                    {(entry.score * 100).toFixed(1)}
+                  </span>
+                </div>
+                <div className={`h-1.5 rounded-full overflow-hidden ${isDarkMode ? "bg-white/10" : "bg-black/10"}`}>
+                  <div className="h-full rounded-full" style={{ width: `${entry.score * 100}%`, backgroundColor: color }} />
+                </div>
+                <p className={`text-xs ${muted}`}>
+                  {(entry.share * 100).toFixed(1)}% of species pixels • Avg confidence {(entry.avgConfidence * 100).toFixed(1)}%
+                </p>
+              </li>
+            )
+          })}
+        </ol>
+      )}
+      {differential.margin !== null && (
+        <p className={`text-xs ${isDarkMode ? "text-white/50" : "text-black/50"}`}>
+          Score = share × avg confidence, normalized • Margin between the top two: {(differential.margin * 100).toFixed(1)} points
+        </p>
+      )}
+
+      <div className="grid grid-cols-2 gap-3">
+        <label className="block">
+          <span className={labelClass}>Ambiguous below margin (points)</span>
+          <input
+            type="number"
+            min={0}
+            max={100}
+            step={1}
+            value={Math.round(settings.marginCutoff * 100)}
+            onChange={(e) => onSettingsChange({ ...settings, marginCutoff: Math.min(100, Math.max(0, Number(e.target.value))) / 100 })}
+            className={inputClass}
+          />
+        </label>
+        <label className="block">
+          <span className={labelClass}>Species present from (% of pixels)</span>
+          <input
+            type="number"
+            min={1}
+            max={100}
+            step={1}
+            value={Math.round(settings.presenceThreshold * 100)}
+            onChange={(e) => onSettingsChange({ ...settings, presenceThreshold: Math.min(100, Math.max(1, Number(e.target.value))) / 100 })}
+            className={inputClass}
+          />
+        </label>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,85 @@
+"use client"
+
+import { useState } from "react"
+import { Download } from "lucide-react"
+import { useTheme } from "@/components/ThemeProvider"
+import {
+  ANNOTATION_FORMAT_LABELS,
+  buildAnnotationArchive,
+  type AnnotationFormat,
+  type ExportImage,
+} from "@/lib/annotation-export"
+import { downloadBlob } from "@/lib/utils"
+
+interface ExportMenuProps {
+  /** The image currently shown */
+  current: ExportImage
+  /** Every finished image in the batch; offered as a second scope when there is more than one */
+  batch: ExportImage[]
+}
+
+export function ExportMenu({ current, batch }: ExportMenuProps) {
+  const { isDarkMode } = useTheme()
+  const [scope, setScope] = useState<"current" | "batch">("current")
+  const [busy, setBusy] = useState<AnnotationFormat | null>(null)
+  const [error, setError] = useState("")
+
+  const images = scope === "batch" && batch.length > 1 ? batch : [current]
+
+  const handleExport = async (format: AnnotationFormat) => {
+    setBusy(format)
+    setError("")
+    try {
+      const archive = await buildAnnotationArchive(images, format)
+      const base = images.length === 1 ? current.filename.replace(/\.[^.]+$/, "") : `batch-${images.length}-images`
+      downloadBlob(archive, `${base}-${format}.zip`)
+    } catch (err) {
+      console.error(err)
+      setError("Export failed")
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <div className={`w-1 h-5 ${isDarkMode ? "bg-white" : "bg-black"} rounded-full`}></div>
+          <h3 className={`text-sm font-bold ${isDarkMode ? "text-white" : "text-black"} uppercase tracking-wider`}>Export Annotations</h3>
+        </div>
+        {batch.length > 1 && (
+          <select
+            value={scope}
+            onChange={(e) => setScope(e.target.value as "current" | "batch")}
+            className={`text-xs font-bold rounded-lg border-2 px-2 py-1 ${isDarkMode ? "bg-black text-white border-white/20" : "bg-white text-black border-black/20"}`}
+          >
+            <option value="current">This image</option>
+            <option value="batch">Whole batch ({batch.length})</option>
+          </select>
+        )}
+      </div>
+      <div className="grid grid-cols-3 gap-2">
+        {(Object.keys(ANNOTATION_FORMAT_LABELS) as AnnotationFormat[]).map((format) => (
+          <button
+            key={format}
+            type="button"
+            onClick={() => handleExport(format)}
+            disabled={busy !== null}
+            className={`inline-flex items-center justify-center gap-1.5 px-3 py-2 rounded-lg text-xs font-bold border-2 transition-colors disabled:opacity-40 ${isDarkMode ? "border-white/20 text-white hover:border-white" : "border-black/20 text-black hover:border-black"}`}
+          >
+            {busy === format ? (
+              <div className={`animate-spin h-3.5 w-3.5 border-2 ${isDarkMode ? "border-white" : "border-black"} border-t-transparent rounded-full`} />
+            ) : (
+              <Download className="w-3.5 h-3.5" />
+            )}
+            {ANNOTATION_FORMAT_LABELS[format]}
+          </button>
+        ))}
+      </div>
+      <p className={`text-xs ${error ? "text-red-500" : isDarkMode ? "text-white/50" : "text-black/50"}`}>
+        {error || "Zip with the original image(s) and labels. Reviewed boxes are used where a review exists."}
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,94 @@
+"use client"
+
+import { useEffect, useRef } from "react"
+import { useTheme } from "@/components/ThemeProvider"
+import { formatMicrons, formatSquareMicrons } from "@/lib/calibration"
+import { summarizeInstances, type WormInstance } from "@/lib/instances"
+
+interface InstanceTableProps {
+  instances: WormInstance[]
+  highlightedId?: number | null
+  selectedId?: number | null
+  onHover: (id: number | null) => void
+  onSelect: (id: number | null) => void
+  colorOf: (name: string) => string
+  umPerPixel?: number | null
+}
+
+/** One row per connected worm instance, linked to its box on the image. */
+export function InstanceTable({ instances, highlightedId, selectedId, onHover, onSelect, colorOf, umPerPixel }: InstanceTableProps) {
+  const { isDarkMode } = useTheme()
+  const bodyRef = useRef<HTMLTableSectionElement>(null)
+
+  useEffect(() => {
+    if (selectedId == null) return
+    bodyRef.current
+      ?.querySelector(`[data-instance-id="${selectedId}"]`)
+      ?.scrollIntoView({ block: "nearest", behavior: "smooth" })
+  }, [selectedId])
+
+  const formatLength = (px: number) => (umPerPixel ? formatMicrons(px * umPerPixel) : `${px.toFixed(0)} px`)
+  const formatArea = (px: number) => (umPerPixel ? formatSquareMicrons(px * umPerPixel * umPerPixel) : `${Math.round(px).toLocaleString()} px²`)
+  const cellClass = "px-2 py-1.5 text-left"
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <div className={`w-1 h-5 ${isDarkMode ? "bg-white" : "bg-black"} rounded-full`}></div>
+        <h3 className={`text-sm font-bold ${isDarkMode ? "text-white" : "text-black"} uppercase tracking-wider`}>
+          Instances ({instances.length})
+        </h3>
+      </div>
+      {instances.length === 0 ? (
+        <p className={`text-sm ${isDarkMode ? "text-white/60" : "text-black/60"}`}>No separate species regions in the mask</p>
+      ) : (
+        <>
+          <p className={`text-xs font-bold ${isDarkMode ? "text-white/60" : "text-black/60"}`}>{summarizeInstances(instances)}</p>
+          <div className={`max-h-72 overflow-y-auto border-2 ${isDarkMode ? "border-white/20" : "border-black/20"} rounded-xl`}>
+            <table className={`w-full text-xs ${isDarkMode ? "text-white" : "text-black"}`}>
+              <thead className={`sticky top-0 ${isDarkMode ? "bg-black text-white/60" : "bg-white text-black/60"} uppercase tracking-wider`}>
+                <tr>
+                  <th className={cellClass}>#</th>
+                  <th className={cellClass}>Species</th>
+                  <th className={cellClass}>Length</th>
+                  <th className={cellClass}>Area</th>
+                  <th className={cellClass}>Box</th>
+                </tr>
+              </thead>
+              <tbody ref={bodyRef} className="font-mono">
+                {instances.map((instance) => (
+                  <tr
+                    key={instance.id}
+                    data-instance-id={instance.id}
+                    onMouseEnter={() => onHover(instance.id)}
+                    onMouseLeave={() => onHover(null)}
+                    onClick={() => onSelect(selectedId === instance.id ? null : instance.id)}
+                    className={`cursor-pointer border-t ${isDarkMode ? "border-white/10" : "border-black/10"} ${
+                      instance.id === highlightedId ? "bg-orange-500/20" : isDarkMode ? "hover:bg-white/5" : "hover:bg-black/5"
+                    }`}
+                  >
+                    <td className={cellClass}>{instance.id}</td>
+                    <td className={`${cellClass} font-sans font-bold`}>
+                      <span className="inline-flex items-center gap-1.5">
+                        <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: colorOf(instance.className) }} />
+                        {instance.className}
+                      </span>
+                    </td>
+                    <td className={cellClass}>{formatLength(instance.length)}</td>
+                    <td className={cellClass}>{formatArea(instance.area)}</td>
+                    <td className={cellClass}>
+                      [{instance.bbox.x1.toFixed(0)}, {instance.bbox.y1.toFixed(0)}, {instance.bbox.x2.toFixed(0)}, {instance.bbox.y2.toFixed(0)}]
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className={`text-xs ${isDarkMode ? "text-white/50" : "text-black/50"}`}>
+            Length is measured along the skeleton of each region and slightly underestimates the body • Hover or click to find it on the image
+          </p>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,201 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { createPortal } from "react-dom"
+import { Printer } from "lucide-react"
+import { useTheme } from "@/components/ThemeProvider"
+
+export interface ReportRow {
+  label: string
+  value: string
+}
+
+export interface SampleInfo {
+  sampleId: string
+  patientId: string
+  operator: string
+  notes: string
+}
+
+interface LabReportProps {
+  title: string
+  filename: string
+  /** `timestamp` of the API result being reported */
+  resultTimestamp: string
+  summary: ReportRow[]
+  method: ReportRow[]
+  table: { columns: string[]; rows: (string | number)[][] }
+  /** Produces the image printed on the report (annotated image or segmentation overlay) */
+  renderImage: () => Promise<string>
+}
+
+// Keeps the table to a single A4 page; the rest is summarised in a footnote
+const MAX_TABLE_ROWS = 20
+
+const SAMPLE_FIELDS: { key: keyof SampleInfo; label: string; placeholder: string }[] = [
+  { key: "sampleId", label: "Sample ID", placeholder: "e.g. SL-2024-0113" },
+  { key: "patientId", label: "Patient / subject ID", placeholder: "e.g. P-00421" },
+  { key: "operator", label: "Examined by", placeholder: "Name of technician" },
+  { key: "notes", label: "Notes", placeholder: "Optional remarks" },
+]
+
+function formatTimestamp(value: string): string {
+  const date = new Date(value)
+  return Number.isNaN(date.getTime()) ? value : date.toLocaleString()
+}
+
+/**
+ * Sample-identifier form plus a one-page A4 report that only appears when
+ * printing (see the `.print-report` rules in globals.css). The report is
+ * portalled to `<body>` so the rest of the page can be hidden in print.
+ */
+export function LabReport({ title, filename, resultTimestamp, summary, method, table, renderImage }: LabReportProps) {
+  const { isDarkMode } = useTheme()
+  const [mounted, setMounted] = useState(false)
+  const [sample, setSample] = useState<SampleInfo>({ sampleId: "", patientId: "", operator: "", notes: "" })
+  const [image, setImage] = useState("")
+  const [preparing, setPreparing] = useState(false)
+  const [printRequested, setPrintRequested] = useState(false)
+
+  useEffect(() => setMounted(true), [])
+
+  const handlePrint = async () => {
+    setPreparing(true)
+    try {
+      const next = await renderImage()
+      if (next === image) {
+        window.print()
+      } else {
+        setImage(next)
+        setPrintRequested(true)
+      }
+    } catch (err) {
+      console.error(err)
+    } finally {
+      setPreparing(false)
+    }
+  }
+
+  // Print once the report image has loaded, otherwise it can be missing from the page
+  const handleImageLoad = () => {
+    if (!printRequested) return
+    setPrintRequested(false)
+    window.print()
+  }
+
+  const hiddenRows = Math.max(0, table.rows.length - MAX_TABLE_ROWS)
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <div className={`w-1 h-5 ${isDarkMode ? "bg-white" : "bg-black"} rounded-full`}></div>
+        <h3 className={`text-sm font-bold ${isDarkMode ? "text-white" : "text-black"} uppercase tracking-wider`}>Lab Report</h3>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        {SAMPLE_FIELDS.map(({ key, label, placeholder }) => (
+          <label key={key} className={key === "notes" ? "col-span-2" : ""}>
+            <span className={`block text-xs font-bold mb-1 ${isDarkMode ? "text-white/60" : "text-black/60"}`}>{label}</span>
+            <input
+              value={sample[key]}
+              onChange={(e) => setSample((prev) => ({ ...prev, [key]: e.target.value }))}
+              placeholder={placeholder}
+              className={`w-full text-sm rounded-lg border-2 px-2 py-1.5 ${isDarkMode ? "bg-black text-white border-white/20 placeholder:text-white/30" : "bg-white text-black border-black/20 placeholder:text-black/30"}`}
+            />
+          </label>
+        ))}
+      </div>
+      <button
+        type="button"
+        onClick={handlePrint}
+        disabled={preparing}
+        className={`w-full inline-flex items-center justify-center gap-2 px-3 py-2 rounded-lg text-xs font-bold border-2 transition-colors disabled:opacity-40 ${isDarkMode ? "border-white/20 text-white hover:border-white" : "border-black/20 text-black hover:border-black"}`}
+      >
+        <Printer className="w-3.5 h-3.5" />
+        {preparing ? "Preparing…" : "Print / Save as PDF"}
+      </button>
+
+      {mounted && createPortal(
+        <div className="print-report hidden print:block bg-white text-black text-[10pt] leading-snug">
+          <header className="flex items-start justify-between border-b-2 border-black pb-2 mb-3">
+            <div>
+              <h1 className="text-[16pt] font-bold">{title}</h1>
+              <p className="text-[9pt]">Microfilaria Analyser • AI-assisted result, to be verified by qualified staff</p>
+            </div>
+            <div className="text-right text-[9pt]">
+              <p>Result: {formatTimestamp(resultTimestamp)}</p>
+              <p>Printed: {new Date().toLocaleString()}</p>
+            </div>
+          </header>
+
+          <section className="grid grid-cols-2 gap-x-6 gap-y-1 mb-3">
+            <p><span className="font-bold">Sample ID:</span> {sample.sampleId || "—"}</p>
+            <p><span className="font-bold">Patient / subject ID:</span> {sample.patientId || "—"}</p>
+            <p><span className="font-bold">Image file:</span> {filename}</p>
+            <p><span className="font-bold">Examined by:</span> {sample.operator || "—"}</p>
+          </section>
+
+          <section className="grid grid-cols-[3fr_2fr] gap-4 mb-3">
+            {image && <img src={image} alt="Analysed image" onLoad={handleImageLoad} className="w-full max-h-[95mm] object-contain border border-black" />}
+            <div className="space-y-3">
+              <table className="w-full border-collapse">
+                <tbody>
+                  {summary.map((row) => (
+                    <tr key={row.label} className="border-b border-black/30">
+                      <th className="text-left font-bold py-0.5 pr-2">{row.label}</th>
+                      <td className="text-right font-mono">{row.value}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <table className="w-full border-collapse text-[9pt]">
+                <tbody>
+                  {method.map((row) => (
+                    <tr key={row.label}>
+                      <th className="text-left font-normal pr-2">{row.label}</th>
+                      <td className="text-right font-mono">{row.value}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </section>
+
+          <table className="w-full border-collapse text-[9pt] mb-1">
+            <thead>
+              <tr className="border-y-2 border-black">
+                {table.columns.map((column) => (
+                  <th key={column} className="text-left py-0.5 pr-2">{column}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {table.rows.slice(0, MAX_TABLE_ROWS).map((row, i) => (
+                <tr key={i} className="border-b border-black/20">
+                  {row.map((cell, j) => (
+                    <td key={j} className="py-0.5 pr-2 font-mono">{cell}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {hiddenRows > 0 && <p className="text-[8pt] italic">+ {hiddenRows} more rows not shown; see the on-screen result for the full list.</p>}
+          {table.rows.length === 0 && <p className="text-[9pt] italic">No findings.</p>}
+
+          {sample.notes && (
+            <p className="mt-3"><span className="font-bold">Notes:</span> {sample.notes}</p>
+          )}
+
+          <footer className="grid grid-cols-2 gap-12 mt-8">
+            {["Examined by", "Verified by"].map((role) => (
+              <div key={role}>
+                <div className="border-b border-black h-10" />
+                <p className="text-[9pt] mt-1">{role} (signature, name, date)</p>
+              </div>
+            ))}
+          </footer>
+        </div>,
+        document.body
+      )}
+    </div>
+  )
+}
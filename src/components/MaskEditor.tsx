@@ -0,0 +1,226 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { Eraser, PaintBucket, Paintbrush, Redo2, RotateCcw, Undo2 } from "lucide-react"
+import { useTheme } from "@/components/ThemeProvider"
+import { BACKGROUND_CLASS_ID, floodFill, paintStroke, type MaskTool } from "@/lib/mask-review"
+import { renderMaskLayer, type SegmentationClass, type SegmentationMask } from "@/lib/segmentation"
+
+interface MaskEditorProps {
+  /** Original image; the mask is stretched over it */
+  src: string
+  mask: SegmentationMask
+  /** Species that can be painted; background is painted with the eraser */
+  classes: SegmentationClass[]
+  opacity: number
+  /** Called once per finished stroke or fill with the new mask */
+  onChange: (mask: SegmentationMask) => void
+  canUndo: boolean
+  canRedo: boolean
+  onUndo: () => void
+  onRedo: () => void
+  onDiscard: () => void
+  onDone: () => void
+}
+
+const MIN_BRUSH = 1
+const MAX_BRUSH = 40
+
+function drawMask(canvas: HTMLCanvasElement | null, mask: SegmentationMask, classes: SegmentationClass[]) {
+  const ctx = canvas?.getContext("2d")
+  if (!canvas || !ctx) return
+  canvas.width = mask.width
+  canvas.height = mask.height
+  ctx.drawImage(renderMaskLayer(mask, classes, { hidden: [], opacity: 1, outline: false }), 0, 0)
+}
+
+/**
+ * Paint tools for correcting the class mask: a per-species brush, an eraser
+ * back to background and a flood fill that relabels one connected region.
+ * Strokes are drawn on a draft and handed back when the pointer lifts.
+ */
+export function MaskEditor({ src, mask, classes, opacity, onChange, canUndo, canRedo, onUndo, onRedo, onDiscard, onDone }: MaskEditorProps) {
+  const { isDarkMode } = useTheme()
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const strokeRef = useRef<{ data: Uint8Array; last: [number, number]; changed: boolean } | null>(null)
+  const [tool, setTool] = useState<MaskTool>("brush")
+  const [classId, setClassId] = useState(classes[0]?.id ?? BACKGROUND_CLASS_ID)
+  const [radius, setRadius] = useState(4)
+  const [cursor, setCursor] = useState<[number, number] | null>(null)
+
+  const paintClass = tool === "eraser" ? BACKGROUND_CLASS_ID : classId
+
+  const draw = (data: Uint8Array) => drawMask(canvasRef.current, { ...mask, data }, classes)
+
+  useEffect(() => {
+    drawMask(canvasRef.current, mask, classes)
+  }, [mask, classes])
+
+  // Shortcuts: B brush, E eraser, F fill, [ and ] brush size, Ctrl+Z / Ctrl+Shift+Z
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement || e.target instanceof HTMLSelectElement) return
+      const key = e.key.toLowerCase()
+      if ((e.ctrlKey || e.metaKey) && (key === "y" || (key === "z" && e.shiftKey))) {
+        e.preventDefault()
+        onRedo()
+      } else if ((e.ctrlKey || e.metaKey) && key === "z") {
+        e.preventDefault()
+        onUndo()
+      } else if (e.ctrlKey || e.metaKey || e.altKey) {
+        return
+      } else if (key === "b") {
+        setTool("brush")
+      } else if (key === "e") {
+        setTool("eraser")
+      } else if (key === "f") {
+        setTool("fill")
+      } else if (key === "[") {
+        setRadius((r) => Math.max(MIN_BRUSH, r - 1))
+      } else if (key === "]") {
+        setRadius((r) => Math.min(MAX_BRUSH, r + 1))
+      }
+    }
+    window.addEventListener("keydown", handleKeyDown)
+    return () => window.removeEventListener("keydown", handleKeyDown)
+  }, [onUndo, onRedo])
+
+  const toMaskPoint = (e: React.PointerEvent<HTMLCanvasElement>): [number, number] => {
+    const rect = e.currentTarget.getBoundingClientRect()
+    return [((e.clientX - rect.left) / rect.width) * mask.width, ((e.clientY - rect.top) / rect.height) * mask.height]
+  }
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (e.button !== 0) return
+    const point = toMaskPoint(e)
+    if (tool === "fill") {
+      const filled = floodFill(mask, point[0], point[1], paintClass)
+      if (filled) onChange(filled)
+      return
+    }
+    e.currentTarget.setPointerCapture(e.pointerId)
+    const data = mask.data.slice()
+    const changed = paintStroke(mask, data, point, point, radius, paintClass)
+    strokeRef.current = { data, last: point, changed }
+    draw(data)
+  }
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const point = toMaskPoint(e)
+    setCursor(point)
+    const stroke = strokeRef.current
+    if (!stroke) return
+    if (paintStroke(mask, stroke.data, stroke.last, point, radius, paintClass)) {
+      stroke.changed = true
+      draw(stroke.data)
+    }
+    stroke.last = point
+  }
+
+  const handlePointerUp = () => {
+    const stroke = strokeRef.current
+    strokeRef.current = null
+    if (stroke?.changed) onChange({ ...mask, data: stroke.data })
+  }
+
+  const buttonClass = (active = false) =>
+    `inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-bold border-2 transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+      active
+        ? isDarkMode ? "bg-white text-black border-white" : "bg-black text-white border-black"
+        : isDarkMode ? "border-white/20 text-white hover:border-white" : "border-black/20 text-black hover:border-black"
+    }`
+
+  return (
+    <div className="space-y-3">
+      <div className={`space-y-3 border-2 border-dashed ${isDarkMode ? "border-white/30" : "border-black/30"} rounded-2xl p-4`}>
+        <div className="flex flex-wrap items-center gap-2">
+          <button type="button" className={buttonClass(tool === "brush")} onClick={() => setTool("brush")} title="Paint the selected species (B)">
+            <Paintbrush className="w-3.5 h-3.5" /> Brush
+          </button>
+          <button type="button" className={buttonClass(tool === "eraser")} onClick={() => setTool("eraser")} title="Paint background (E)">
+            <Eraser className="w-3.5 h-3.5" /> Eraser
+          </button>
+          <button type="button" className={buttonClass(tool === "fill")} onClick={() => setTool("fill")} title="Relabel a connected region (F)">
+            <PaintBucket className="w-3.5 h-3.5" /> Fill
+          </button>
+          <div className="flex-1" />
+          <button type="button" className={buttonClass()} onClick={onUndo} disabled={!canUndo} title="Undo (Ctrl+Z)" aria-label="Undo">
+            <Undo2 className="w-3.5 h-3.5" />
+          </button>
+          <button type="button" className={buttonClass()} onClick={onRedo} disabled={!canRedo} title="Redo (Ctrl+Shift+Z)" aria-label="Redo">
+            <Redo2 className="w-3.5 h-3.5" />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          {classes.map((cls) => (
+            <button
+              key={cls.id}
+              type="button"
+              onClick={() => {
+                setClassId(cls.id)
+                if (tool === "eraser") setTool("brush")
+              }}
+              className={buttonClass(tool !== "eraser" && classId === cls.id)}
+            >
+              <span className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: cls.color }} />
+              {cls.name}
+            </button>
+          ))}
+        </div>
+
+        <label className="flex items-center gap-3">
+          <span className={`text-xs font-bold ${isDarkMode ? "text-white/60" : "text-black/60"}`}>Brush {radius * 2} px</span>
+          <input
+            type="range"
+            min={MIN_BRUSH}
+            max={MAX_BRUSH}
+            step={1}
+            value={radius}
+            onChange={(e) => setRadius(Number(e.target.value))}
+            disabled={tool === "fill"}
+            className={`flex-1 ${isDarkMode ? "accent-white" : "accent-black"}`}
+          />
+        </label>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <button type="button" className={buttonClass()} onClick={onDiscard} title="Drop all edits and go back to the model mask">
+            <RotateCcw className="w-3.5 h-3.5" /> Reset to model output
+          </button>
+          <div className="flex-1" />
+          <button type="button" className={buttonClass(true)} onClick={onDone}>
+            Done
+          </button>
+        </div>
+      </div>
+
+      <div className={`relative w-full ${isDarkMode ? "bg-white/5" : "bg-black/5"} rounded-xl overflow-hidden border-2 ${isDarkMode ? "border-white/20" : "border-black/20"} shadow-lg`}>
+        <img src={src} alt="Mask being edited" className="w-full object-contain" />
+        <canvas
+          ref={canvasRef}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          onPointerLeave={() => setCursor(null)}
+          className={`absolute inset-0 w-full h-full touch-none ${tool === "fill" ? "cursor-cell" : "cursor-none"}`}
+          style={{ opacity, imageRendering: "pixelated" }}
+        />
+        {cursor && tool !== "fill" && (
+          <div
+            className="absolute rounded-full border border-white pointer-events-none mix-blend-difference -translate-x-1/2 -translate-y-1/2"
+            style={{
+              left: `${(cursor[0] / mask.width) * 100}%`,
+              top: `${(cursor[1] / mask.height) * 100}%`,
+              width: `${((radius * 2) / mask.width) * 100}%`,
+              height: `${((radius * 2) / mask.height) * 100}%`,
+            }}
+          />
+        )}
+      </div>
+      <p className={`text-xs ${isDarkMode ? "text-white/50" : "text-black/50"}`}>
+        Brush size is in mask pixels • Statistics below update after each stroke
+      </p>
+    </div>
+  )
+}
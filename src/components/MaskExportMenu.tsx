@@ -0,0 +1,62 @@
+"use client"
+
+import { useState } from "react"
+import { Download } from "lucide-react"
+import { useTheme } from "@/components/ThemeProvider"
+import { buildMaskExport, MASK_EXPORT_LABELS, type MaskExportFormat, type MaskExportInput } from "@/lib/mask-export"
+import { downloadBlob } from "@/lib/utils"
+
+interface MaskExportMenuProps {
+  input: MaskExportInput
+}
+
+/** Downloads the class mask as training labels: indexed PNG, GeoJSON, QuPath annotations or all of them zipped. */
+export function MaskExportMenu({ input }: MaskExportMenuProps) {
+  const { isDarkMode } = useTheme()
+  const [busy, setBusy] = useState<MaskExportFormat | null>(null)
+  const [error, setError] = useState("")
+
+  const handleExport = async (format: MaskExportFormat) => {
+    setBusy(format)
+    setError("")
+    try {
+      const { blob, filename } = await buildMaskExport(input, format)
+      downloadBlob(blob, filename)
+    } catch (err) {
+      console.error(err)
+      setError("Export failed")
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <div className={`w-1 h-5 ${isDarkMode ? "bg-white" : "bg-black"} rounded-full`}></div>
+        <h3 className={`text-sm font-bold ${isDarkMode ? "text-white" : "text-black"} uppercase tracking-wider`}>Export Mask</h3>
+      </div>
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+        {(Object.keys(MASK_EXPORT_LABELS) as MaskExportFormat[]).map((format) => (
+          <button
+            key={format}
+            type="button"
+            onClick={() => handleExport(format)}
+            disabled={busy !== null}
+            className={`inline-flex items-center justify-center gap-1.5 px-3 py-2 rounded-lg text-xs font-bold border-2 transition-colors disabled:opacity-40 ${isDarkMode ? "border-white/20 text-white hover:border-white" : "border-black/20 text-black hover:border-black"}`}
+          >
+            {busy === format ? (
+              <div className={`animate-spin h-3.5 w-3.5 border-2 ${isDarkMode ? "border-white" : "border-black"} border-t-transparent rounded-full`} />
+            ) : (
+              <Download className="w-3.5 h-3.5" />
+            )}
+            {MASK_EXPORT_LABELS[format]}
+          </button>
+        ))}
+      </div>
+      <p className={`text-xs ${error ? "text-red-500" : isDarkMode ? "text-white/50" : "text-black/50"}`}>
+        {error || "Pixel values are class IDs at the original resolution. Polygons are in image pixels; the zip adds the original, the overlay and classes.csv."}
+      </p>
+    </div>
+  )
+}
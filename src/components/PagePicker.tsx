@@ -0,0 +1,89 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { Check, Layers } from "lucide-react"
+import { useTheme } from "@/components/ThemeProvider"
+import type { DecodedPage, PageStack } from "@/lib/image-decode"
+
+interface PagePickerProps {
+  stack: PageStack
+  onConfirm: (pages: DecodedPage[]) => void
+  onCancel: () => void
+}
+
+/** Lets the user choose which pages of a multi-page TIFF go into the queue; all are selected at first. */
+export function PagePicker({ stack, onConfirm, onCancel }: PagePickerProps) {
+  const { isDarkMode } = useTheme()
+  const [selected, setSelected] = useState<Set<number>>(() => new Set(stack.pages.map((page) => page.page)))
+
+  const thumbnails = useMemo(() => stack.pages.map((page) => URL.createObjectURL(page.file)), [stack])
+  useEffect(() => () => thumbnails.forEach((url) => URL.revokeObjectURL(url)), [thumbnails])
+
+  const toggle = (page: DecodedPage) => {
+    setSelected((prev) => {
+      const next = new Set(prev)
+      if (next.has(page.page)) next.delete(page.page)
+      else next.add(page.page)
+      return next
+    })
+  }
+
+  const buttonClass = `inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-bold border-2 ${isDarkMode ? "border-white/20 text-white hover:border-white" : "border-black/20 text-black hover:border-black"} transition-colors disabled:opacity-40`
+
+  return (
+    <div className={`space-y-3 border-2 ${isDarkMode ? "border-white/20" : "border-black/20"} rounded-2xl p-4`}>
+      <div className="flex items-center gap-2">
+        <Layers className={`w-4 h-4 ${isDarkMode ? "text-white" : "text-black"}`} />
+        <h3 className={`text-sm font-bold ${isDarkMode ? "text-white" : "text-black"} uppercase tracking-wider truncate`}>
+          {stack.source.name} ({stack.pages.length} pages)
+        </h3>
+      </div>
+      <p className={`text-xs ${isDarkMode ? "text-white/50" : "text-black/50"}`}>
+        Choose the pages of the stack to analyse.
+        {stack.pages[0].bitDepth > 8 && ` ${stack.pages[0].bitDepth}-bit pages are contrast-stretched to 8 bits.`}
+      </p>
+      <div className="grid grid-cols-4 gap-2 max-h-64 overflow-y-auto pr-1">
+        {stack.pages.map((page, index) => {
+          const isSelected = selected.has(page.page)
+          return (
+            <button
+              key={page.page}
+              type="button"
+              onClick={() => toggle(page)}
+              className={`relative rounded-lg overflow-hidden border-2 ${
+                isSelected ? "border-blue-500" : isDarkMode ? "border-white/20 hover:border-white" : "border-black/20 hover:border-black"
+              } transition-colors`}
+            >
+              <img src={thumbnails[index]} alt={`Page ${page.page}`} className="w-full aspect-square object-cover" />
+              <span className={`absolute bottom-0 inset-x-0 text-[10px] font-bold ${isDarkMode ? "bg-black/70 text-white" : "bg-white/80 text-black"}`}>
+                {page.page}
+              </span>
+              {isSelected && (
+                <Check className="absolute top-1 right-1 w-4 h-4 text-white bg-blue-500 rounded-full p-0.5" />
+              )}
+            </button>
+          )
+        })}
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <button type="button" onClick={() => setSelected(new Set(stack.pages.map((page) => page.page)))} className={buttonClass}>
+          All
+        </button>
+        <button type="button" onClick={() => setSelected(new Set())} className={buttonClass}>
+          None
+        </button>
+        <button
+          type="button"
+          disabled={selected.size === 0}
+          onClick={() => onConfirm(stack.pages.filter((page) => selected.has(page.page)))}
+          className={buttonClass}
+        >
+          Add {selected.size} page{selected.size === 1 ? "" : "s"}
+        </button>
+        <button type="button" onClick={onCancel} className={`ml-auto text-xs font-semibold ${isDarkMode ? "text-white/60 hover:text-white" : "text-black/60 hover:text-black"} transition-colors`}>
+          Cancel
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,56 @@
+"use client"
+
+import { ShieldAlert, ShieldCheck, ShieldX } from "lucide-react"
+import { useTheme } from "@/components/ThemeProvider"
+import type { QualityReport, QualityStatus } from "@/lib/quality"
+
+const STATUS_COLORS: Record<QualityStatus, string> = {
+  pass: "#22c55e",
+  warn: "#f59e0b",
+  fail: "#ef4444",
+}
+
+const STATUS_ICONS = { pass: ShieldCheck, warn: ShieldAlert, fail: ShieldX }
+
+interface QualityReportCardProps {
+  report: QualityReport
+  /** Offered for failed images: analyse them anyway */
+  onOverride?: () => void
+}
+
+export function QualityReportCard({ report, onOverride }: QualityReportCardProps) {
+  const { isDarkMode } = useTheme()
+  const Icon = STATUS_ICONS[report.status]
+  const color = STATUS_COLORS[report.status]
+
+  return (
+    <div className="border-2 rounded-xl p-3 space-y-2" style={{ borderColor: `${color}99` }}>
+      <div className="flex items-center gap-2">
+        <Icon className="w-4 h-4 shrink-0" style={{ color }} />
+        <p className={`text-xs font-bold uppercase tracking-wider ${isDarkMode ? "text-white" : "text-black"}`}>
+          Image quality: <span style={{ color }}>{report.status}</span>
+          {report.overridden && <span className={isDarkMode ? "text-white/60" : "text-black/60"}> (overridden)</span>}
+        </p>
+        {onOverride && (
+          <button
+            type="button"
+            onClick={onOverride}
+            className={`ml-auto inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-bold border-2 ${isDarkMode ? "border-white/20 text-white hover:border-white" : "border-black/20 text-black hover:border-black"} transition-colors`}
+          >
+            Analyse anyway
+          </button>
+        )}
+      </div>
+      <ul className="space-y-1">
+        {report.checks.map((check) => (
+          <li key={check.id} className={`flex items-start gap-2 text-xs ${isDarkMode ? "text-white/70" : "text-black/70"}`}>
+            <span className="mt-1 w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: STATUS_COLORS[check.status] }} />
+            <span>
+              <span className="font-bold">{check.label}:</span> {check.message}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,220 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { Columns2, GitCompare, SquareSplitHorizontal } from "lucide-react"
+import { useTheme } from "@/components/ThemeProvider"
+import { DetectionViewer, type ViewerBox, type ViewTransform } from "@/components/DetectionViewer"
+import { MATCH_IOU, compareDetections, type RunConfig } from "@/lib/compare"
+import type { Detection, DetectionResponse } from "@/lib/detection"
+import { detectUpload, prepareDetectionUpload, type DetectionPipelineSettings } from "@/lib/detection-pipeline"
+
+export const COMPARE_COLORS = {
+  matched: "#22c55e",
+  onlyA: "#3b82f6",
+  onlyB: "#a855f7",
+}
+
+type CompareMode = "split" | "swipe"
+type RunKey = "a" | "b"
+
+interface RunComparisonProps {
+  file: File
+  previewUrl: string
+  /** The page's upload settings, so both runs see what a normal run would send */
+  settings: DetectionPipelineSettings
+  /** Starting confidence for run A, usually the page's current threshold */
+  defaultConfidence: number
+}
+
+/**
+ * Runs the same image twice with different thresholds or backends and shows
+ * both results in synchronized viewers, with boxes matched by IoU.
+ */
+export function RunComparison({ file, previewUrl, settings, defaultConfidence }: RunComparisonProps) {
+  const { isDarkMode } = useTheme()
+  const defaultApiUrl = process.env.NEXT_PUBLIC_API_URL ?? ""
+  const [configs, setConfigs] = useState<Record<RunKey, RunConfig>>({
+    a: { confidence: defaultConfidence, apiUrl: defaultApiUrl },
+    b: { confidence: Math.min(0.9, Math.round((defaultConfidence + 0.15) * 100) / 100), apiUrl: defaultApiUrl },
+  })
+  const [runs, setRuns] = useState<Record<RunKey, { config: RunConfig; response: DetectionResponse }> | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState("")
+  const [mode, setMode] = useState<CompareMode>("split")
+  const [swipe, setSwipe] = useState(50)
+  const [view, setView] = useState<ViewTransform>()
+
+  const comparison = useMemo(
+    () => (runs ? compareDetections(runs.a.response.detections, runs.b.response.detections) : null),
+    [runs]
+  )
+
+  const handleRun = async () => {
+    setLoading(true)
+    setError("")
+    try {
+      const upload = await prepareDetectionUpload(file, settings)
+      const run = async (config: RunConfig) => ({
+        config,
+        response: await detectUpload(upload, config.confidence, undefined, config.apiUrl),
+      })
+      const [a, b] = await Promise.all([run(configs.a), run(configs.b)])
+      setRuns({ a, b })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const toBoxes = (detections: Detection[], run: RunKey): ViewerBox[] => {
+    const unmatched = new Set((run === "a" ? comparison?.onlyA : comparison?.onlyB)?.map((box) => box.id))
+    return detections.map((detection) => ({
+      id: detection.id,
+      bbox: detection.bbox,
+      label: `${run.toUpperCase()}#${detection.id} ${(detection.confidence * 100).toFixed(0)}%`,
+      color: unmatched.has(detection.id) ? COMPARE_COLORS[run === "a" ? "onlyA" : "onlyB"] : COMPARE_COLORS.matched,
+    }))
+  }
+
+  const inputClass = `w-full text-sm rounded-lg border-2 px-2 py-1.5 ${isDarkMode ? "bg-black text-white border-white/20" : "bg-white text-black border-black/20"}`
+  const buttonClass = (active: boolean) => `inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-bold border-2 ${
+    active
+      ? isDarkMode ? "bg-white text-black border-white" : "bg-black text-white border-black"
+      : isDarkMode ? "border-white/20 text-white hover:border-white" : "border-black/20 text-black hover:border-black"
+  } transition-colors disabled:opacity-40`
+
+  const renderViewer = (run: RunKey, className: string) => runs && (
+    <DetectionViewer
+      src={previewUrl}
+      imageWidth={runs[run].response.image_info.width}
+      imageHeight={runs[run].response.image_info.height}
+      boxes={toBoxes(runs[run].response.detections, run)}
+      view={view}
+      onViewChange={setView}
+      className={className}
+    />
+  )
+
+  const countA = runs?.a.response.detection_stats.total_count ?? 0
+  const countB = runs?.b.response.detection_stats.total_count ?? 0
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <GitCompare className={`w-4 h-4 ${isDarkMode ? "text-white" : "text-black"}`} />
+        <h3 className={`text-sm font-bold ${isDarkMode ? "text-white" : "text-black"} uppercase tracking-wider`}>Compare Runs</h3>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        {(["a", "b"] as const).map((run) => (
+          <div key={run} className={`space-y-2 border-2 ${isDarkMode ? "border-white/20" : "border-black/20"} rounded-xl p-3`}>
+            <p className="text-xs font-black uppercase tracking-wider" style={{ color: COMPARE_COLORS[run === "a" ? "onlyA" : "onlyB"] }}>
+              Run {run.toUpperCase()}
+            </p>
+            <label className="block">
+              <span className={`block text-xs font-bold mb-1 ${isDarkMode ? "text-white/60" : "text-black/60"}`}>
+                Confidence {configs[run].confidence.toFixed(2)}
+              </span>
+              <input
+                type="range"
+                min="0.05"
+                max="0.9"
+                step="0.05"
+                value={configs[run].confidence}
+                onChange={(e) => setConfigs((prev) => ({ ...prev, [run]: { ...prev[run], confidence: parseFloat(e.target.value) } }))}
+                className={`w-full ${isDarkMode ? "accent-white" : "accent-black"}`}
+              />
+            </label>
+            <label className="block">
+              <span className={`block text-xs font-bold mb-1 ${isDarkMode ? "text-white/60" : "text-black/60"}`}>Backend URL</span>
+              <input
+                type="url"
+                value={configs[run].apiUrl}
+                onChange={(e) => setConfigs((prev) => ({ ...prev, [run]: { ...prev[run], apiUrl: e.target.value.replace(/\/+$/, "") } }))}
+                className={inputClass}
+              />
+            </label>
+          </div>
+        ))}
+      </div>
+
+      <button type="button" onClick={handleRun} disabled={loading} className={buttonClass(false)}>
+        <GitCompare className="w-3.5 h-3.5" />
+        {loading ? "RUNNING..." : runs ? "RUN AGAIN" : "RUN BOTH"}
+      </button>
+
+      {error && <p className="text-xs font-medium text-red-500">{error}</p>}
+
+      {runs && comparison && (
+        <>
+          <div className="grid grid-cols-3 gap-3">
+            {[
+              { label: "Run A", value: countA },
+              { label: "Run B", value: countB },
+              { label: "B − A", value: `${countB - countA > 0 ? "+" : ""}${countB - countA}` },
+            ].map(({ label, value }) => (
+              <div key={label} className={`border-2 ${isDarkMode ? "border-white/20" : "border-black/20"} rounded-xl p-3`}>
+                <p className={`text-xs ${isDarkMode ? "text-white/60" : "text-black/60"} uppercase tracking-wider font-bold`}>{label}</p>
+                <p className={`text-2xl font-black ${isDarkMode ? "text-white" : "text-black"}`}>{value}</p>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div className={`flex flex-wrap gap-3 text-xs font-bold ${isDarkMode ? "text-white/70" : "text-black/70"}`}>
+              {([
+                ["matched", `${comparison.matched.length} matched`],
+                ["onlyA", `${comparison.onlyA.length} only in A`],
+                ["onlyB", `${comparison.onlyB.length} only in B`],
+              ] as const).map(([key, label]) => (
+                <span key={key} className="inline-flex items-center gap-1.5">
+                  <span className="w-3 h-3 rounded-sm border-2" style={{ borderColor: COMPARE_COLORS[key] }} />
+                  {label}
+                </span>
+              ))}
+            </div>
+            <div className="flex gap-1">
+              <button type="button" onClick={() => setMode("split")} className={buttonClass(mode === "split")}>
+                <Columns2 className="w-3.5 h-3.5" />
+                Split
+              </button>
+              <button type="button" onClick={() => setMode("swipe")} className={buttonClass(mode === "swipe")}>
+                <SquareSplitHorizontal className="w-3.5 h-3.5" />
+                Swipe
+              </button>
+            </div>
+          </div>
+
+          {mode === "split" ? (
+            <div className="grid grid-cols-2 gap-2">
+              {renderViewer("a", "h-72")}
+              {renderViewer("b", "h-72")}
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {/* B is stacked on A and clipped; clipped-out areas pass pointer events to A */}
+              <div className="relative h-96">
+                <div className="absolute inset-0">{renderViewer("a", "h-full")}</div>
+                <div className="absolute inset-0" style={{ clipPath: `inset(0 0 0 ${swipe}%)` }}>{renderViewer("b", "h-full")}</div>
+                <div className="absolute inset-y-0 w-0.5 bg-white shadow pointer-events-none" style={{ left: `${swipe}%` }} />
+              </div>
+              <input
+                type="range"
+                min="0"
+                max="100"
+                value={swipe}
+                onChange={(e) => setSwipe(Number(e.target.value))}
+                className={`w-full ${isDarkMode ? "accent-white" : "accent-black"}`}
+                aria-label="Swipe position"
+              />
+            </div>
+          )}
+          <p className={`text-xs ${isDarkMode ? "text-white/50" : "text-black/50"}`}>
+            Boxes of the same class overlapping by IoU ≥ {MATCH_IOU} count as matched • Pan and zoom are linked
+          </p>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,23 @@
+"use client"
+
+import { formatMicrons, scaleBarLength } from "@/lib/calibration"
+
+interface ScaleBarProps {
+  umPerPixel: number
+  /** Screen pixels per image pixel at the current zoom */
+  displayScale: number
+  className?: string
+}
+
+/** Round-length scale bar for an image shown at `displayScale`; position it with `className`. */
+export function ScaleBar({ umPerPixel, displayScale, className = "" }: ScaleBarProps) {
+  if (!(umPerPixel > 0) || !(displayScale > 0)) return null
+  const screenPxPerUm = displayScale / umPerPixel
+  const lengthUm = scaleBarLength(screenPxPerUm)
+  return (
+    <div className={`pointer-events-none flex flex-col items-start gap-0.5 px-2 py-1 rounded bg-black/60 ${className}`}>
+      <span className="text-xs font-mono font-bold text-white">{formatMicrons(lengthUm)}</span>
+      <div className="h-1.5 bg-white border border-black/40" style={{ width: lengthUm * screenPxPerUm }} />
+    </div>
+  )
+}
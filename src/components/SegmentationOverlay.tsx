@@ -0,0 +1,177 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { Eye, EyeOff } from "lucide-react"
+import { useTheme } from "@/components/ThemeProvider"
+import { ScaleBar } from "@/components/ScaleBar"
+import type { WormInstance } from "@/lib/instances"
+import {
+  renderMaskLayer,
+  type MaskLayerSettings,
+  type SegmentationClass,
+  type SegmentationMask,
+} from "@/lib/segmentation"
+
+interface SegmentationOverlayProps {
+  /** Original image; the mask is stretched over it */
+  src: string
+  mask: SegmentationMask
+  classes: SegmentationClass[]
+  settings: MaskLayerSettings
+  onSettingsChange: (settings: MaskLayerSettings) => void
+  /** Original image size in pixels, to size the scale bar and place instance boxes */
+  imageWidth?: number
+  imageHeight?: number
+  umPerPixel?: number | null
+  /** Connected instances drawn as boxes; the highlighted one is emphasised */
+  instances?: WormInstance[]
+  highlightedId?: number | null
+  onInstanceHover?: (id: number | null) => void
+  onInstanceSelect?: (id: number) => void
+  /** Display colour per class name */
+  colorOf?: (name: string) => string
+}
+
+/**
+ * Client-rendered class mask over the original image, with a visibility
+ * toggle per class, layer opacity and an outline-only mode. Instance boxes,
+ * when given, are hoverable and clickable to link with the instance table.
+ */
+export function SegmentationOverlay({
+  src,
+  mask,
+  classes,
+  settings,
+  onSettingsChange,
+  imageWidth,
+  imageHeight,
+  umPerPixel,
+  instances = [],
+  highlightedId,
+  onInstanceHover,
+  onInstanceSelect,
+  colorOf,
+}: SegmentationOverlayProps) {
+  const { isDarkMode } = useTheme()
+  const imageRef = useRef<HTMLImageElement>(null)
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const [displayWidth, setDisplayWidth] = useState(0)
+
+  useEffect(() => {
+    const image = imageRef.current
+    if (!image) return
+    const observer = new ResizeObserver(() => setDisplayWidth(image.clientWidth))
+    observer.observe(image)
+    return () => observer.disconnect()
+  }, [])
+
+  // Opacity is applied with CSS, so only visibility and mode repaint the layer
+  const { hidden, outline } = settings
+  useEffect(() => {
+    const canvas = canvasRef.current
+    const ctx = canvas?.getContext("2d")
+    if (!canvas || !ctx) return
+    canvas.width = mask.width
+    canvas.height = mask.height
+    ctx.drawImage(renderMaskLayer(mask, classes, { hidden, outline, opacity: 1 }), 0, 0)
+  }, [mask, classes, hidden, outline])
+
+  const toggleClass = (id: number) => {
+    onSettingsChange({
+      ...settings,
+      hidden: hidden.includes(id) ? hidden.filter((hiddenId) => hiddenId !== id) : [...hidden, id],
+    })
+  }
+
+  const buttonClass = (active: boolean) => `inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-bold border-2 ${
+    active
+      ? isDarkMode ? "border-white/20 text-white hover:border-white" : "border-black/20 text-black hover:border-black"
+      : isDarkMode ? "border-white/10 text-white/40 hover:border-white/40" : "border-black/10 text-black/40 hover:border-black/40"
+  } transition-colors`
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2">
+        {classes.map((cls) => {
+          const visible = !hidden.includes(cls.id)
+          return (
+            <button key={cls.id} type="button" onClick={() => toggleClass(cls.id)} className={buttonClass(visible)} aria-pressed={visible}>
+              <span className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: cls.color, opacity: visible ? 1 : 0.3 }} />
+              {cls.name}
+              {visible ? <Eye className="w-3.5 h-3.5" /> : <EyeOff className="w-3.5 h-3.5" />}
+            </button>
+          )
+        })}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4">
+        <label className="flex flex-1 min-w-40 items-center gap-3">
+          <span className={`text-xs font-bold ${isDarkMode ? "text-white/60" : "text-black/60"}`}>
+            Opacity {Math.round(settings.opacity * 100)}%
+          </span>
+          <input
+            type="range"
+            min="0"
+            max="1"
+            step="0.05"
+            value={settings.opacity}
+            onChange={(e) => onSettingsChange({ ...settings, opacity: parseFloat(e.target.value) })}
+            className={`flex-1 ${isDarkMode ? "accent-white" : "accent-black"}`}
+          />
+        </label>
+        <label className={`inline-flex items-center gap-2 text-xs font-bold cursor-pointer ${isDarkMode ? "text-white/60" : "text-black/60"}`}>
+          <input
+            type="checkbox"
+            checked={outline}
+            onChange={(e) => onSettingsChange({ ...settings, outline: e.target.checked })}
+            className={`w-4 h-4 ${isDarkMode ? "accent-white" : "accent-black"}`}
+          />
+          Outline only
+        </label>
+      </div>
+
+      <div className={`relative w-full ${isDarkMode ? "bg-white/5" : "bg-black/5"} rounded-xl overflow-hidden border-2 ${isDarkMode ? "border-white/20" : "border-black/20"} shadow-lg`}>
+        <img ref={imageRef} src={src} alt="Segmented image" className="w-full object-contain" />
+        {/* pixelated keeps class boundaries crisp when the mask is smaller than the image */}
+        <canvas
+          ref={canvasRef}
+          className="absolute inset-0 w-full h-full pointer-events-none"
+          style={{ opacity: settings.opacity, imageRendering: "pixelated" }}
+        />
+        {instances.length > 0 && imageWidth && imageHeight && (
+          <svg
+            viewBox={`0 0 ${imageWidth} ${imageHeight}`}
+            preserveAspectRatio="none"
+            className="absolute inset-0 w-full h-full"
+          >
+            {instances.map((instance) => {
+              const highlighted = instance.id === highlightedId
+              const { x1, y1, x2, y2 } = instance.bbox
+              return (
+                <rect
+                  key={instance.id}
+                  x={x1}
+                  y={y1}
+                  width={x2 - x1}
+                  height={y2 - y1}
+                  fill="transparent"
+                  stroke={highlighted ? "#f97316" : colorOf?.(instance.className) ?? "#ffffff"}
+                  strokeWidth={highlighted ? 3 : 1}
+                  strokeDasharray={highlighted ? undefined : "4 3"}
+                  vectorEffect="non-scaling-stroke"
+                  className="cursor-pointer"
+                  onMouseEnter={() => onInstanceHover?.(instance.id)}
+                  onMouseLeave={() => onInstanceHover?.(null)}
+                  onClick={() => onInstanceSelect?.(instance.id)}
+                />
+              )
+            })}
+          </svg>
+        )}
+        {umPerPixel && imageWidth && (
+          <ScaleBar umPerPixel={umPerPixel} displayScale={displayWidth / imageWidth} className="absolute bottom-2 left-2" />
+        )}
+      </div>
+    </div>
+  )
+}
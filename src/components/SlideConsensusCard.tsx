@@ -0,0 +1,88 @@
+"use client"
+
+import { AlertTriangle, Layers } from "lucide-react"
+import { useTheme } from "@/components/ThemeProvider"
+import type { SlideConsensus } from "@/lib/consensus"
+
+interface SlideConsensusCardProps {
+  consensus: SlideConsensus
+  /** Display colour per species name, matching the per-field view */
+  colorOf: (name: string) => string
+}
+
+/** Slide-level species verdict from several 40x fields, with per-species shares and agreement. */
+export function SlideConsensusCard({ consensus, colorOf }: SlideConsensusCardProps) {
+  const { isDarkMode } = useTheme()
+  const muted = isDarkMode ? "text-white/60" : "text-black/60"
+  const borderClass = isDarkMode ? "border-white/20" : "border-black/20"
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <Layers className={`w-4 h-4 ${isDarkMode ? "text-white" : "text-black"}`} />
+        <h3 className={`text-sm font-bold ${isDarkMode ? "text-white" : "text-black"} uppercase tracking-wider`}>
+          Slide consensus ({consensus.fields} fields)
+        </h3>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className={`border-2 ${borderClass} rounded-xl p-3`}>
+          <p className={`text-xs ${muted} uppercase tracking-wider font-bold`}>Slide verdict</p>
+          <p
+            className={`text-lg font-black break-words ${consensus.verdict ? "" : isDarkMode ? "text-white" : "text-black"}`}
+            style={consensus.verdict ? { color: colorOf(consensus.verdict) } : undefined}
+          >
+            {consensus.verdict ?? "No species"}
+          </p>
+        </div>
+        <div className={`border-2 ${borderClass} rounded-xl p-3`}>
+          <p className={`text-xs ${muted} uppercase tracking-wider font-bold`}>Field agreement</p>
+          <p className={`text-lg font-black ${isDarkMode ? "text-white" : "text-black"}`}>
+            {consensus.fieldsWithSpecies > 0 ? `${(consensus.agreement * 100).toFixed(0)}%` : "—"}
+          </p>
+          <p className={`text-xs ${muted}`}>
+            {consensus.fieldsWithSpecies} of {consensus.fields} fields show a species
+          </p>
+        </div>
+      </div>
+
+      {consensus.flags.length > 0 && (
+        <div className={`flex gap-2 border-2 rounded-xl p-3 ${isDarkMode ? "border-amber-400/60 bg-amber-900/20 text-amber-200" : "border-amber-400 bg-amber-50 text-amber-900"}`}>
+          <AlertTriangle className="w-4 h-4 shrink-0 mt-0.5" />
+          <ul className="text-xs font-medium space-y-1">
+            {consensus.flags.map((flag) => (
+              <li key={flag}>{flag}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {consensus.species.length > 0 && (
+        <div className="space-y-2">
+          {consensus.species.map((species) => {
+            const color = colorOf(species.name)
+            return (
+              <div key={species.name} className={`border-2 ${borderClass} rounded-xl p-3 space-y-2`}>
+                <div className="flex items-center justify-between gap-2">
+                  <span className={`text-sm font-bold truncate ${isDarkMode ? "text-white" : "text-black"}`}>{species.name}</span>
+                  <span className="text-sm font-mono font-bold px-2 py-1 rounded-lg" style={{ backgroundColor: `${color}20`, color }}>
+                    {(species.confidenceShare * 100).toFixed(1)}%
+                  </span>
+                </div>
+                <div className={`h-1.5 rounded-full overflow-hidden ${isDarkMode ? "bg-white/10" : "bg-black/10"}`}>
+                  <div className="h-full rounded-full" style={{ width: `${species.confidenceShare * 100}%`, backgroundColor: color }} />
+                </div>
+                <p className={`text-xs ${muted}`}>
+                  Pixel share {(species.pixelShare * 100).toFixed(1)}% • Dominant in {species.fieldsDominant} / present in {species.fieldsPresent} of {consensus.fields} fields
+                </p>
+              </div>
+            )
+          })}
+          <p className={`text-xs ${isDarkMode ? "text-white/50" : "text-black/50"}`}>
+            Shares are confidence-weighted unless marked as pixel share
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
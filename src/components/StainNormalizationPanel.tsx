@@ -0,0 +1,168 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Droplet, ImagePlus, Trash2 } from "lucide-react"
+import { useTheme } from "@/components/ThemeProvider"
+import type { useStainReference } from "@/hooks/use-stain-reference"
+import { UPLOAD_ACCEPT, decodableFormat, decodeImageFile } from "@/lib/image-decode"
+import { prepareImage } from "@/lib/preprocess"
+import { createStainReference, normalizeStain } from "@/lib/stain-normalization"
+
+interface StainNormalizationPanelProps {
+  enabled: boolean
+  onEnabledChange: (enabled: boolean) => void
+  stain: ReturnType<typeof useStainReference>
+  /** Image shown in the before/after preview and offered as a reference */
+  currentFile: File | null
+}
+
+// Preview and reference images are worked on at this longest side
+const PREVIEW_DIMENSION = 512
+
+/**
+ * Opt-in colour normalization to a reference slide, with the reference
+ * picker and a before/after preview of the current image.
+ */
+export function StainNormalizationPanel({ enabled, onEnabledChange, stain, currentFile }: StainNormalizationPanelProps) {
+  const { isDarkMode } = useTheme()
+  const { reference, setReference } = stain
+  const [preview, setPreview] = useState<{ before: string; after: string } | null>(null)
+  const [working, setWorking] = useState(false)
+  const [error, setError] = useState("")
+
+  useEffect(() => {
+    // An error from an earlier preview no longer applies
+    setError("")
+    if (!enabled || !reference || !currentFile) {
+      setPreview(null)
+      return
+    }
+    let cancelled = false
+    let urls: string[] = []
+    prepareImage(currentFile, PREVIEW_DIMENSION)
+      .then(async (prepared) => {
+        const normalized = await normalizeStain(prepared.blob, reference)
+        if (cancelled) return
+        urls = [URL.createObjectURL(prepared.blob), URL.createObjectURL(normalized)]
+        setPreview({ before: urls[0], after: urls[1] })
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : String(err))
+      })
+    return () => {
+      cancelled = true
+      urls.forEach((url) => URL.revokeObjectURL(url))
+    }
+  }, [enabled, reference, currentFile])
+
+  const adoptReference = async (file: File) => {
+    setWorking(true)
+    setError("")
+    try {
+      const source = decodableFormat(file) ? (await decodeImageFile(file))[0].file : file
+      const prepared = await prepareImage(source, PREVIEW_DIMENSION)
+      setReference(await createStainReference(prepared.blob, file.name))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const buttonClass = `inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-bold border-2 ${isDarkMode ? "border-white/20 text-white hover:border-white" : "border-black/20 text-black hover:border-black"} transition-colors disabled:opacity-40`
+  const captionClass = `text-xs ${isDarkMode ? "text-white/50" : "text-black/50"}`
+
+  return (
+    <div className="space-y-3">
+      <label className="flex items-center justify-between gap-3 cursor-pointer">
+        <div className="flex items-center gap-2">
+          <div className={`w-1 h-5 ${isDarkMode ? "bg-white" : "bg-black"} rounded-full`}></div>
+          <span className={`text-sm font-bold ${isDarkMode ? "text-white" : "text-black"} uppercase tracking-wider`}>
+            Stain Normalization
+          </span>
+        </div>
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) => onEnabledChange(e.target.checked)}
+          className={`w-4 h-4 ${isDarkMode ? "accent-white" : "accent-black"}`}
+        />
+      </label>
+      <p className={captionClass}>
+        Matches the colour of each upload to a reference slide (Reinhard transfer in L*a*b*), for pale or over-stained Giemsa smears.
+      </p>
+
+      {enabled && (
+        <div className="space-y-3">
+          <div className="flex items-center gap-3">
+            {reference ? (
+              <>
+                <img src={reference.thumbnail} alt="Reference slide" className="w-12 h-12 object-cover rounded-lg" />
+                <div className="min-w-0 flex-1">
+                  <p className={`text-xs font-bold truncate ${isDarkMode ? "text-white" : "text-black"}`}>{reference.name}</p>
+                  <p className={captionClass}>Reference slide</p>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => setReference(null)}
+                  className={buttonClass}
+                  aria-label="Remove reference"
+                  title="Remove reference"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </>
+            ) : (
+              <p className={`text-xs font-medium ${isDarkMode ? "text-amber-300" : "text-amber-700"}`}>
+                Choose a well-stained reference slide; uploads are sent unchanged until one is set.
+              </p>
+            )}
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <label className={`${buttonClass} ${working ? "opacity-40 cursor-wait" : "cursor-pointer"}`}>
+              <input
+                type="file"
+                accept={UPLOAD_ACCEPT}
+                disabled={working}
+                onChange={(e) => {
+                  const file = e.target.files?.[0]
+                  e.target.value = ""
+                  if (file) adoptReference(file)
+                }}
+                className="hidden"
+              />
+              <ImagePlus className="w-3.5 h-3.5" />
+              Upload reference
+            </label>
+            <button
+              type="button"
+              onClick={() => currentFile && adoptReference(currentFile)}
+              disabled={!currentFile || working}
+              className={buttonClass}
+            >
+              <Droplet className="w-3.5 h-3.5" />
+              Use current image
+            </button>
+          </div>
+
+          {error && <p className="text-xs font-medium text-red-500">{error}</p>}
+
+          {preview && (
+            <div className="grid grid-cols-2 gap-2">
+              {[
+                { label: "Before", src: preview.before },
+                { label: "After", src: preview.after },
+              ].map(({ label, src }) => (
+                <figure key={label} className="space-y-1">
+                  <img src={src} alt={`${label} normalization`} className="w-full rounded-lg" />
+                  <figcaption className={captionClass}>{label}</figcaption>
+                </figure>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
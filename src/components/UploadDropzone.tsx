@@ -0,0 +1,128 @@
+"use client"
+
+import { useEffect, useRef, useState, type ReactNode } from "react"
+import { FolderOpen, Upload } from "lucide-react"
+import { useTheme } from "@/components/ThemeProvider"
+import { UPLOAD_ACCEPT } from "@/lib/image-decode"
+import { collectDroppedFiles, collectPastedFiles, isImageCandidate } from "@/lib/upload-sources"
+
+interface UploadDropzoneProps {
+  /** Receives every picked, dropped, pasted or folder-collected file */
+  onFiles: (files: File[]) => void
+  /** Accept several files and offer folder selection */
+  multiple?: boolean
+  disabled?: boolean
+  title: ReactNode
+  hint: ReactNode
+}
+
+/**
+ * Upload area shared by the analysis pages: click to browse, drag and drop
+ * files or folders, Ctrl+V to paste an image, or pick a whole folder.
+ */
+export function UploadDropzone({ onFiles, multiple = false, disabled = false, title, hint }: UploadDropzoneProps) {
+  const { isDarkMode } = useTheme()
+  const folderInputRef = useRef<HTMLInputElement>(null)
+  // dragenter/dragleave fire for every child element, so count them instead of toggling
+  const dragDepth = useRef(0)
+  const [isDragging, setIsDragging] = useState(false)
+  const onFilesRef = useRef(onFiles)
+
+  useEffect(() => {
+    onFilesRef.current = onFiles
+  }, [onFiles])
+
+  // React has no typed prop for non-standard directory selection
+  useEffect(() => {
+    folderInputRef.current?.setAttribute("webkitdirectory", "")
+  }, [multiple])
+
+  useEffect(() => {
+    if (disabled) return
+    const handlePaste = (e: ClipboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return
+      const files = e.clipboardData ? collectPastedFiles(e.clipboardData) : []
+      if (files.length === 0) return
+      e.preventDefault()
+      onFilesRef.current(multiple ? files : files.slice(0, 1))
+    }
+    window.addEventListener("paste", handlePaste)
+    return () => window.removeEventListener("paste", handlePaste)
+  }, [disabled, multiple])
+
+  const handleInput = (e: React.ChangeEvent<HTMLInputElement>, fromFolder: boolean) => {
+    const files = Array.from(e.target.files ?? [])
+    e.target.value = ""
+    const picked = fromFolder ? files.filter(isImageCandidate) : files
+    if (picked.length > 0) onFiles(picked)
+  }
+
+  const handleDrop = async (e: React.DragEvent) => {
+    e.preventDefault()
+    dragDepth.current = 0
+    setIsDragging(false)
+    if (disabled) return
+    const files = await collectDroppedFiles(e.dataTransfer)
+    if (files.length > 0) onFiles(multiple ? files : files.slice(0, 1))
+  }
+
+  return (
+    <div className="space-y-2">
+      <label
+        className={`block group ${disabled ? "cursor-wait" : "cursor-pointer"}`}
+        onDragEnter={(e) => {
+          e.preventDefault()
+          dragDepth.current++
+          setIsDragging(true)
+        }}
+        onDragOver={(e) => {
+          e.preventDefault()
+          e.dataTransfer.dropEffect = disabled ? "none" : "copy"
+        }}
+        onDragLeave={() => {
+          dragDepth.current = Math.max(0, dragDepth.current - 1)
+          if (dragDepth.current === 0) setIsDragging(false)
+        }}
+        onDrop={handleDrop}
+      >
+        <input
+          type="file"
+          accept={UPLOAD_ACCEPT}
+          multiple={multiple}
+          disabled={disabled}
+          onChange={(e) => handleInput(e, false)}
+          className="hidden"
+        />
+        <div className={`relative border-2 border-dashed ${
+          isDragging
+            ? isDarkMode ? "border-white bg-white/10 scale-[1.02]" : "border-black bg-black/10 scale-[1.02]"
+            : isDarkMode ? "border-white/30" : "border-black/30"
+        } rounded-2xl p-16 text-center transition-all duration-300 group-hover:${isDarkMode ? "border-white" : "border-black"} group-hover:${isDarkMode ? "bg-white/5" : "bg-black/5"} group-hover:scale-[1.02]`}>
+          <div className={`absolute top-4 right-4 w-2 h-2 ${isDarkMode ? "bg-white" : "bg-black"} rounded-full ${isDragging ? "opacity-100 animate-pulse" : "opacity-0"} group-hover:opacity-100 transition-opacity`}></div>
+          <Upload className={`w-16 h-16 mx-auto mb-6 ${isDarkMode ? "text-white/40" : "text-black/40"} group-hover:${isDarkMode ? "text-white" : "text-black"} transition-all duration-300 group-hover:scale-110`} />
+          <p className={`text-base font-semibold ${isDarkMode ? "text-white" : "text-black"} mb-2`}>
+            {isDragging ? (multiple ? "Drop images or folders to add them" : "Drop the image to use it") : title}
+          </p>
+          <p className={`text-sm ${isDarkMode ? "text-white/60" : "text-black/60"}`}>{hint}</p>
+          <p className={`mt-1 text-xs ${isDarkMode ? "text-white/40" : "text-black/40"}`}>
+            Click, drag and drop, or paste with Ctrl+V
+          </p>
+        </div>
+      </label>
+      {multiple && (
+        <label className={`inline-flex items-center gap-1.5 text-xs font-semibold ${disabled ? "opacity-50 cursor-wait" : "cursor-pointer"} ${isDarkMode ? "text-white/60 hover:text-white" : "text-black/60 hover:text-black"} transition-colors`}>
+          <input
+            ref={folderInputRef}
+            type="file"
+            multiple
+            disabled={disabled}
+            onChange={(e) => handleInput(e, true)}
+            className="hidden"
+          />
+          <FolderOpen className="w-3.5 h-3.5" />
+          Choose folder
+        </label>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,62 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import {
+  loadActiveProfiles,
+  loadProfiles,
+  saveActiveProfiles,
+  saveProfiles,
+  type CalibrationProfile,
+} from "@/lib/calibration"
+
+/**
+ * Saved calibration profiles for one objective and the one currently in use.
+ * Profiles live in localStorage, so they are shared by every page and kept
+ * across sessions on this machine.
+ */
+export function useCalibration(objective: string) {
+  const [profiles, setProfiles] = useState<CalibrationProfile[]>([])
+  const [activeIds, setActiveIds] = useState<Record<string, string>>({})
+
+  // Read after mount so server and client first render match
+  useEffect(() => {
+    setProfiles(loadProfiles())
+    setActiveIds(loadActiveProfiles())
+  }, [])
+
+  const select = useCallback((id: string | null) => {
+    setActiveIds((prev) => {
+      const next = { ...prev }
+      if (id) next[objective] = id
+      else delete next[objective]
+      saveActiveProfiles(next)
+      return next
+    })
+  }, [objective])
+
+  const add = useCallback((profile: CalibrationProfile) => {
+    setProfiles((prev) => {
+      const next = [...prev, profile]
+      saveProfiles(next)
+      return next
+    })
+    if (profile.objective === objective) select(profile.id)
+  }, [objective, select])
+
+  const remove = useCallback((id: string) => {
+    setProfiles((prev) => {
+      const next = prev.filter((profile) => profile.id !== id)
+      saveProfiles(next)
+      return next
+    })
+  }, [])
+
+  const forObjective = profiles.filter((profile) => profile.objective === objective)
+  return {
+    profiles: forObjective,
+    active: forObjective.find((profile) => profile.id === activeIds[objective]) ?? null,
+    select,
+    add,
+    remove,
+  }
+}
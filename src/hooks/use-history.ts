@@ -0,0 +1,64 @@
+"use client"
+
+import { useCallback, useRef, useState } from "react"
+
+interface Timeline<T> {
+  past: T[]
+  present: T
+  future: T[]
+}
+
+// Oldest entries are dropped beyond this many undo steps
+const MAX_HISTORY = 100
+
+/**
+ * Undo/redo timeline for an editable value. `push` records a new state,
+ * `undo`/`redo` move through the timeline and return the new present so the
+ * caller can persist it without waiting for a re-render.
+ */
+export function useHistory<T>(initial: T) {
+  const [timeline, setTimeline] = useState<Timeline<T>>({ past: [], present: initial, future: [] })
+  // Mirror so undo/redo can return the new value synchronously
+  const timelineRef = useRef(timeline)
+
+  const commit = useCallback((next: Timeline<T>) => {
+    timelineRef.current = next
+    setTimeline(next)
+  }, [])
+
+  const push = useCallback((value: T) => {
+    const { past, present } = timelineRef.current
+    commit({ past: [...past, present].slice(-MAX_HISTORY), present: value, future: [] })
+  }, [commit])
+
+  const undo = useCallback((): T | undefined => {
+    const { past, present, future } = timelineRef.current
+    if (past.length === 0) return undefined
+    const previous = past[past.length - 1]
+    commit({ past: past.slice(0, -1), present: previous, future: [present, ...future] })
+    return previous
+  }, [commit])
+
+  const redo = useCallback((): T | undefined => {
+    const { past, present, future } = timelineRef.current
+    if (future.length === 0) return undefined
+    const [next, ...rest] = future
+    commit({ past: [...past, present], present: next, future: rest })
+    return next
+  }, [commit])
+
+  /** Replaces the value and discards the undo/redo stacks. */
+  const reset = useCallback((value: T) => {
+    commit({ past: [], present: value, future: [] })
+  }, [commit])
+
+  return {
+    value: timeline.present,
+    push,
+    undo,
+    redo,
+    reset,
+    canUndo: timeline.past.length > 0,
+    canRedo: timeline.future.length > 0,
+  }
+}
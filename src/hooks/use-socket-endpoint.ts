@@ -0,0 +1,27 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { DEFAULT_SOCKET_ENDPOINT, loadSocketEndpoint, saveSocketEndpoint, type SocketEndpoint } from "@/lib/socket-endpoint"
+
+/**
+ * The socket.io endpoint for real-time detection: a per-browser override from
+ * localStorage when one is saved, else the build's default. `loaded` turns
+ * true once the override has been read, so callers can wait before connecting.
+ */
+export function useSocketEndpoint() {
+  const [override, setOverrideState] = useState<SocketEndpoint | null>(null)
+  const [loaded, setLoaded] = useState(false)
+
+  // Read after mount so server and client first render match
+  useEffect(() => {
+    setOverrideState(loadSocketEndpoint())
+    setLoaded(true)
+  }, [])
+
+  const setOverride = useCallback((next: SocketEndpoint | null) => {
+    setOverrideState(next)
+    saveSocketEndpoint(next)
+  }, [])
+
+  return { endpoint: override ?? DEFAULT_SOCKET_ENDPOINT, override, setOverride, loaded }
+}
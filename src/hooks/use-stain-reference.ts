@@ -0,0 +1,24 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { loadStainReference, saveStainReference, type StainReference } from "@/lib/stain-normalization"
+
+/**
+ * The reference slide for stain normalization. It lives in localStorage, so
+ * both analysis pages normalize to the same slide.
+ */
+export function useStainReference() {
+  const [reference, setReferenceState] = useState<StainReference | null>(null)
+
+  // Read after mount so server and client first render match
+  useEffect(() => {
+    setReferenceState(loadStainReference())
+  }, [])
+
+  const setReference = useCallback((next: StainReference | null) => {
+    setReferenceState(next)
+    saveStainReference(next)
+  }, [])
+
+  return { reference, setReference }
+}
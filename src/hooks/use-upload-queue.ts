@@ -0,0 +1,112 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from "react"
+
+export type QueueStatus = "pending" | "running" | "done" | "failed"
+
+export interface QueueItem<T> {
+  id: string
+  file: File
+  previewUrl: string
+  status: QueueStatus
+  result?: T
+  error?: string
+  /** Raw rejection value, for runners that throw typed errors */
+  cause?: unknown
+  /** 0–1 while running, when the runner reports progress */
+  progress?: number
+}
+
+let nextItemId = 0
+
+/**
+ * Keeps a list of uploaded files and runs `run` on them with at most
+ * `concurrency` requests in flight. Items stay "pending" until `start` is
+ * called; failed items can be re-queued with `retry`.
+ */
+export function useUploadQueue<T>(
+  run: (file: File, reportProgress: (progress: number) => void) => Promise<T>,
+  concurrency = 3,
+) {
+  const [items, setItems] = useState<QueueItem<T>[]>([])
+  // Mirror of `items` so the pump can read the latest list synchronously
+  const itemsRef = useRef<QueueItem<T>[]>([])
+  const runRef = useRef(run)
+
+  useEffect(() => {
+    runRef.current = run
+  }, [run])
+
+  const update = useCallback((fn: (prev: QueueItem<T>[]) => QueueItem<T>[]) => {
+    itemsRef.current = fn(itemsRef.current)
+    setItems(itemsRef.current)
+  }, [])
+
+  const patch = useCallback((id: string, changes: Partial<QueueItem<T>>) => {
+    update((prev) => prev.map((item) => (item.id === id ? { ...item, ...changes } : item)))
+  }, [update])
+
+  const pump = useCallback(() => {
+    let running = itemsRef.current.filter((item) => item.status === "running").length
+    for (const item of itemsRef.current) {
+      if (running >= concurrency) break
+      if (item.status !== "pending") continue
+      running++
+      patch(item.id, { status: "running", error: undefined, cause: undefined, progress: undefined })
+      runRef.current(item.file, (progress) => patch(item.id, { progress }))
+        .then((result) => patch(item.id, { status: "done", result, progress: undefined }))
+        .catch((err: unknown) => {
+          patch(item.id, { status: "failed", error: err instanceof Error ? err.message : String(err), cause: err })
+        })
+        .finally(pump)
+    }
+  }, [concurrency, patch])
+
+  const add = useCallback((files: File[]) => {
+    const added = files.map<QueueItem<T>>((file) => ({
+      id: `item-${++nextItemId}`,
+      file,
+      previewUrl: URL.createObjectURL(file),
+      status: "pending",
+    }))
+    update((prev) => [...prev, ...added])
+    return added
+  }, [update])
+
+  const remove = useCallback((id: string) => {
+    const item = itemsRef.current.find((i) => i.id === id)
+    if (!item || item.status === "running") return
+    URL.revokeObjectURL(item.previewUrl)
+    update((prev) => prev.filter((i) => i.id !== id))
+  }, [update])
+
+  const clear = useCallback(() => {
+    if (itemsRef.current.some((item) => item.status === "running")) return
+    itemsRef.current.forEach((item) => URL.revokeObjectURL(item.previewUrl))
+    update(() => [])
+  }, [update])
+
+  const retry = useCallback((id: string) => {
+    patch(id, { status: "pending", error: undefined, cause: undefined })
+    pump()
+  }, [patch, pump])
+
+  /** Re-queues every finished item, e.g. after a setting that affects the request changed. */
+  const rerunAll = useCallback(() => {
+    update((prev) => prev.map((item) => (
+      item.status === "running" ? item : { ...item, status: "pending", result: undefined, error: undefined, cause: undefined }
+    )))
+    pump()
+  }, [update, pump])
+
+  return {
+    items,
+    add,
+    remove,
+    clear,
+    retry,
+    rerunAll,
+    start: pump,
+    isRunning: items.some((item) => item.status === "running"),
+  }
+}
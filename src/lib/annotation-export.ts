@@ -0,0 +1,177 @@
+import { strToU8, zipSync, type Zippable } from "fflate"
+import type { DetectionResponse } from "@/lib/detection"
+import { prepareImage } from "@/lib/preprocess"
+
+export type AnnotationFormat = "coco" | "yolo" | "voc"
+
+export interface ExportImage {
+  /** Original image, bundled next to the labels with its EXIF rotation applied */
+  file: File
+  filename: string
+  /** Detections to export: the reviewed set when available, otherwise the filtered model output */
+  response: DetectionResponse
+}
+
+export const ANNOTATION_FORMAT_LABELS: Record<AnnotationFormat, string> = {
+  coco: "COCO JSON",
+  yolo: "YOLO txt",
+  voc: "Pascal VOC XML",
+}
+
+function stem(filename: string): string {
+  const dot = filename.lastIndexOf(".")
+  return dot > 0 ? filename.slice(0, dot) : filename
+}
+
+function extension(filename: string): string {
+  const dot = filename.lastIndexOf(".")
+  return dot > 0 ? filename.slice(dot) : ""
+}
+
+/** Renames repeated file names (`field.jpg`, `field_2.jpg`, ...) so a batch fits in one archive. */
+function uniqueFilenames(images: ExportImage[]): string[] {
+  const seen = new Map<string, number>()
+  return images.map(({ filename }) => {
+    const count = (seen.get(filename) ?? 0) + 1
+    seen.set(filename, count)
+    return count === 1 ? filename : `${stem(filename)}_${count}${extension(filename)}`
+  })
+}
+
+/** Class names across all images in a stable order; the index is the YOLO class id. */
+export function collectClasses(images: ExportImage[]): string[] {
+  const classes = new Set<string>()
+  images.forEach(({ response }) => response.detections.forEach((detection) => classes.add(detection.class)))
+  return Array.from(classes).sort()
+}
+
+export function toCoco(images: ExportImage[], filenames = uniqueFilenames(images)) {
+  const classes = collectClasses(images)
+  let annotationId = 0
+  return {
+    info: {
+      description: "Microfilaria 10x detections",
+      date_created: new Date().toISOString(),
+    },
+    images: images.map(({ response }, index) => ({
+      id: index + 1,
+      file_name: filenames[index],
+      width: response.image_info.width,
+      height: response.image_info.height,
+    })),
+    annotations: images.flatMap(({ response }, index) =>
+      response.detections.map((detection) => {
+        const { x1, y1, x2, y2 } = detection.bbox
+        const width = x2 - x1
+        const height = y2 - y1
+        return {
+          id: ++annotationId,
+          image_id: index + 1,
+          category_id: classes.indexOf(detection.class) + 1,
+          bbox: [x1, y1, width, height],
+          area: width * height,
+          iscrowd: 0,
+          score: detection.confidence,
+        }
+      })
+    ),
+    categories: classes.map((name, index) => ({ id: index + 1, name, supercategory: "microfilaria" })),
+  }
+}
+
+/** One YOLO label line per detection: `class cx cy w h`, normalised to the image size. */
+export function toYoloLabels(response: DetectionResponse, classes: string[]): string {
+  const { width, height } = response.image_info
+  return response.detections
+    .map((detection) => {
+      const { x1, y1, x2, y2 } = detection.bbox
+      const values = [(x1 + x2) / 2 / width, (y1 + y2) / 2 / height, (x2 - x1) / width, (y2 - y1) / height]
+      return [classes.indexOf(detection.class), ...values.map((v) => v.toFixed(6))].join(" ")
+    })
+    .join("\n")
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;")
+}
+
+export function toPascalVoc(response: DetectionResponse, filename: string): string {
+  const { width, height } = response.image_info
+  const objects = response.detections
+    .map((detection) => {
+      const { x1, y1, x2, y2 } = detection.bbox
+      return [
+        "  <object>",
+        `    <name>${escapeXml(detection.class)}</name>`,
+        "    <pose>Unspecified</pose>",
+        "    <truncated>0</truncated>",
+        "    <difficult>0</difficult>",
+        "    <bndbox>",
+        `      <xmin>${Math.round(x1)}</xmin>`,
+        `      <ymin>${Math.round(y1)}</ymin>`,
+        `      <xmax>${Math.round(x2)}</xmax>`,
+        `      <ymax>${Math.round(y2)}</ymax>`,
+        "    </bndbox>",
+        "  </object>",
+      ].join("\n")
+    })
+    .join("\n")
+
+  return [
+    "<annotation>",
+    "  <folder>JPEGImages</folder>",
+    `  <filename>${escapeXml(filename)}</filename>`,
+    "  <size>",
+    `    <width>${width}</width>`,
+    `    <height>${height}</height>`,
+    "    <depth>3</depth>",
+    "  </size>",
+    "  <segmented>0</segmented>",
+    objects,
+    "</annotation>",
+    "",
+  ].filter((line) => line !== "").join("\n")
+}
+
+/**
+ * Packs the images and their labels into a zip laid out the way each
+ * training toolchain expects:
+ * - coco: `images/` + `annotations.json`
+ * - yolo: `images/` + `labels/*.txt` + `classes.txt`
+ * - voc:  `JPEGImages/` + `Annotations/*.xml`
+ */
+export async function buildAnnotationArchive(images: ExportImage[], format: AnnotationFormat): Promise<Blob> {
+  const filenames = uniqueFilenames(images)
+  // Boxes and sizes are in the EXIF-rotated frame, so rotated photos are bundled with the rotation baked in
+  const imageBytes = await Promise.all(images.map(async ({ file, response }) => {
+    const image = (response.preprocessing?.orientation ?? 1) !== 1 ? (await prepareImage(file, null)).blob : file
+    return new Uint8Array(await image.arrayBuffer())
+  }))
+  const files: Zippable = {}
+
+  if (format === "coco") {
+    filenames.forEach((name, i) => (files[`images/${name}`] = imageBytes[i]))
+    files["annotations.json"] = strToU8(JSON.stringify(toCoco(images, filenames), null, 2))
+  } else if (format === "yolo") {
+    const classes = collectClasses(images)
+    filenames.forEach((name, i) => {
+      files[`images/${name}`] = imageBytes[i]
+      files[`labels/${stem(name)}.txt`] = strToU8(toYoloLabels(images[i].response, classes))
+    })
+    files["classes.txt"] = strToU8(classes.join("\n"))
+  } else {
+    filenames.forEach((name, i) => {
+      files[`JPEGImages/${name}`] = imageBytes[i]
+      files[`Annotations/${stem(name)}.xml`] = strToU8(toPascalVoc(images[i].response, name))
+    })
+  }
+
+  // Images are already compressed; storing them avoids a slow, pointless deflate pass
+  const zipped = zipSync(files, { level: 0 })
+  return new Blob([zipped], { type: "application/zip" })
+}
@@ -0,0 +1,101 @@
+import type { Detection } from "@/lib/detection"
+
+/** Pixel size for one microscope / objective / camera combination */
+export interface CalibrationProfile {
+  id: string
+  /** e.g. "CX23 lab 2, Dino-Eye camera" */
+  name: string
+  /** Objective the profile applies to, e.g. "10x" */
+  objective: string
+  umPerPixel: number
+  createdAt: string
+}
+
+export interface Point {
+  x: number
+  y: number
+}
+
+const PROFILES_KEY = "calibration-profiles"
+const ACTIVE_KEY = "calibration-active"
+// Scale bar lengths step through 1, 2, 5 × 10^n µm
+const SCALE_STEPS = [1, 2, 5]
+
+/**
+ * Reads saved profiles from localStorage; an empty list when storage is
+ * blocked or holds something unreadable.
+ */
+export function loadProfiles(): CalibrationProfile[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PROFILES_KEY) ?? "[]")
+    return Array.isArray(stored)
+      ? stored.filter((profile) => typeof profile?.umPerPixel === "number" && profile.umPerPixel > 0)
+      : []
+  } catch {
+    return []
+  }
+}
+
+export function saveProfiles(profiles: CalibrationProfile[]) {
+  try {
+    localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles))
+  } catch {
+    // localStorage may be blocked
+  }
+}
+
+/** Active profile id per objective */
+export function loadActiveProfiles(): Record<string, string> {
+  try {
+    const stored = JSON.parse(localStorage.getItem(ACTIVE_KEY) ?? "{}")
+    return stored && typeof stored === "object" ? stored : {}
+  } catch {
+    return {}
+  }
+}
+
+export function saveActiveProfiles(active: Record<string, string>) {
+  try {
+    localStorage.setItem(ACTIVE_KEY, JSON.stringify(active))
+  } catch {
+    // localStorage may be blocked
+  }
+}
+
+/** µm per pixel from two points clicked on a stage micrometer `knownUm` apart. */
+export function umPerPixelFromPoints(a: Point, b: Point, knownUm: number): number | null {
+  const distance = Math.hypot(b.x - a.x, b.y - a.y)
+  if (distance <= 0 || knownUm <= 0) return null
+  return knownUm / distance
+}
+
+export function formatMicrons(um: number): string {
+  if (um >= 1000) return `${(um / 1000).toFixed(2)} mm`
+  return `${um >= 100 ? um.toFixed(0) : um.toFixed(1)} µm`
+}
+
+export function formatSquareMicrons(um2: number): string {
+  if (um2 >= 1e6) return `${(um2 / 1e6).toFixed(3)} mm²`
+  return `${Math.round(um2).toLocaleString()} µm²`
+}
+
+/**
+ * Picks a round scale bar length (1-2-5 series) whose on-screen size is
+ * close to `targetScreenPx`, given how many screen pixels one micron takes.
+ */
+export function scaleBarLength(screenPxPerUm: number, targetScreenPx = 100): number {
+  const ideal = targetScreenPx / screenPxPerUm
+  const magnitude = Math.pow(10, Math.floor(Math.log10(ideal)))
+  let best = magnitude
+  for (const step of SCALE_STEPS) {
+    if (step * magnitude <= ideal) best = step * magnitude
+  }
+  return best
+}
+
+/** Box width × height in µm, for `Detection.bbox` in original-image pixels. */
+export function formatBoxSize(bbox: Detection["bbox"], umPerPixel: number): string {
+  const width = (bbox.x2 - bbox.x1) * umPerPixel
+  const height = (bbox.y2 - bbox.y1) * umPerPixel
+  return `${width.toFixed(1)} × ${height.toFixed(1)} µm`
+}
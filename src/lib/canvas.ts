@@ -0,0 +1,67 @@
+import type { Detection } from "@/lib/detection"
+
+/** Loads an image URL (object URL or data URI) into a decoded `HTMLImageElement`. */
+export function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image()
+    image.onload = () => resolve(image)
+    image.onerror = () => reject(new Error("Could not decode image"))
+    image.src = src
+  })
+}
+
+export function createCanvas(width: number, height: number): [HTMLCanvasElement, CanvasRenderingContext2D] {
+  const canvas = document.createElement("canvas")
+  canvas.width = width
+  canvas.height = height
+  const ctx = canvas.getContext("2d")
+  if (!ctx) throw new Error("Canvas 2D context unavailable")
+  return [canvas, ctx]
+}
+
+/**
+ * Draws detection boxes over the original image and returns a JPEG data URI,
+ * for places that need a flat image (print, PDF) rather than the live viewer.
+ */
+export async function renderDetectionsImage(
+  src: string,
+  width: number,
+  height: number,
+  detections: (Pick<Detection, "id" | "bbox"> & { color?: string })[],
+  /** Output size relative to `width` × `height`, to keep very large images manageable */
+  scale = 1,
+): Promise<string> {
+  const image = await loadImage(src)
+  const [canvas, ctx] = createCanvas(Math.round(width * scale), Math.round(height * scale))
+  ctx.scale(scale, scale)
+  ctx.drawImage(image, 0, 0, width, height)
+
+  const lineWidth = Math.max(2 / scale, Math.round(Math.max(width, height) / 500))
+  ctx.lineWidth = lineWidth
+  ctx.font = `bold ${lineWidth * 7}px sans-serif`
+  detections.forEach((detection) => {
+    const { x1, y1, x2, y2 } = detection.bbox
+    ctx.strokeStyle = detection.color ?? "#22c55e"
+    ctx.fillStyle = detection.color ?? "#22c55e"
+    ctx.strokeRect(x1, y1, x2 - x1, y2 - y1)
+    ctx.fillText(`#${detection.id}`, x1, Math.max(lineWidth * 7, y1 - lineWidth))
+  })
+  return canvas.toDataURL("image/jpeg", 0.9)
+}
+
+/**
+ * Crops a square around `bbox` (grown by `padding` × its longer side on each
+ * side) and scales it to `size` px, as a JPEG data URI. Areas outside the
+ * image stay black.
+ */
+export function cropDetection(image: CanvasImageSource, bbox: Detection["bbox"], size: number, padding = 0.25): string {
+  const side = Math.max(bbox.x2 - bbox.x1, bbox.y2 - bbox.y1) * (1 + 2 * padding)
+  const cx = (bbox.x1 + bbox.x2) / 2
+  const cy = (bbox.y1 + bbox.y2) / 2
+  const [canvas, ctx] = createCanvas(size, size)
+  ctx.fillStyle = "#000"
+  ctx.fillRect(0, 0, size, size)
+  ctx.imageSmoothingQuality = "high"
+  ctx.drawImage(image, cx - side / 2, cy - side / 2, side, side, 0, 0, size, size)
+  return canvas.toDataURL("image/jpeg", 0.9)
+}
@@ -0,0 +1,56 @@
+import type { Detection } from "@/lib/detection"
+import { iou } from "@/lib/tiling"
+
+/** Settings for one side of a comparison */
+export interface RunConfig {
+  confidence: number
+  /** Backend base URL, in place of `NEXT_PUBLIC_API_URL` */
+  apiUrl: string
+}
+
+export interface DetectionMatch {
+  a: Detection
+  b: Detection
+  iou: number
+}
+
+export interface RunComparison {
+  matched: DetectionMatch[]
+  onlyA: Detection[]
+  onlyB: Detection[]
+}
+
+// Boxes from the two runs are the same object at or above this IoU
+export const MATCH_IOU = 0.5
+
+/**
+ * One-to-one matching of two detection sets on the same image: pairs of the
+ * same class are taken greedily from the highest IoU down, so each box is
+ * matched at most once. Whatever is left is only in A or only in B.
+ */
+export function compareDetections(a: Detection[], b: Detection[], threshold = MATCH_IOU): RunComparison {
+  const candidates: DetectionMatch[] = []
+  for (const boxA of a) {
+    for (const boxB of b) {
+      if (boxA.class !== boxB.class) continue
+      const overlap = iou(boxA.bbox, boxB.bbox)
+      if (overlap >= threshold) candidates.push({ a: boxA, b: boxB, iou: overlap })
+    }
+  }
+  candidates.sort((x, y) => y.iou - x.iou)
+
+  const usedA = new Set<number>()
+  const usedB = new Set<number>()
+  const matched: DetectionMatch[] = []
+  for (const candidate of candidates) {
+    if (usedA.has(candidate.a.id) || usedB.has(candidate.b.id)) continue
+    usedA.add(candidate.a.id)
+    usedB.add(candidate.b.id)
+    matched.push(candidate)
+  }
+  return {
+    matched,
+    onlyA: a.filter((box) => !usedA.has(box.id)),
+    onlyB: b.filter((box) => !usedB.has(box.id)),
+  }
+}
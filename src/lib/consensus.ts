@@ -0,0 +1,103 @@
+import type { SegmentationResults } from "@/lib/segmentation"
+
+/** One species summed over every field of a slide */
+export interface SpeciesConsensus {
+  name: string
+  pixelCount: number
+  /** Share of all species pixels on the slide, 0–1 */
+  pixelShare: number
+  /** Share after weighting each field's pixels by their mean confidence, 0–1 */
+  confidenceShare: number
+  /** Fields in which this species is the largest one */
+  fieldsDominant: number
+  /** Fields in which it covers at least `PRESENCE_SHARE` of the species pixels */
+  fieldsPresent: number
+}
+
+export interface SlideConsensus {
+  /** Fields analysed */
+  fields: number
+  /** Fields with any species pixels; the rest are background only */
+  fieldsWithSpecies: number
+  species: SpeciesConsensus[]
+  /** Species with the highest confidence-weighted share, or `null` when no field shows one */
+  verdict: string | null
+  /** Share of fields with species whose dominant species is the verdict, 0–1 */
+  agreement: number
+  /** Largest species per field, `null` for background-only fields */
+  dominantByField: (string | null)[]
+  /** Why the verdict needs a second look; empty when the fields agree */
+  flags: string[]
+}
+
+// Species below this share of a field's species pixels count as noise in that field
+const PRESENCE_SHARE = 0.05
+// Fields must agree at least this often for the verdict to stand unflagged
+const MIN_AGREEMENT = 0.75
+
+function isBackground(name: string, classId: number): boolean {
+  return classId === 0 || name.toLowerCase() === "background"
+}
+
+/**
+ * Combines the `class_statistics` of several 40x fields from one slide into
+ * a slide-level species call. Pixels are pooled across fields (pixel-weighted)
+ * and, separately, weighted by each field's mean class confidence; the
+ * verdict follows the confidence-weighted share.
+ */
+export function combineFields(fields: SegmentationResults[]): SlideConsensus {
+  const totals = new Map<string, { pixels: number; weighted: number; dominant: number; present: number }>()
+  const dominantByField = fields.map((field) => {
+    const species = Object.entries(field.class_statistics).filter(
+      ([name, stats]) => !isBackground(name, stats.class_id) && (stats.pixel_count ?? 0) > 0
+    )
+    const fieldPixels = species.reduce((sum, [, stats]) => sum + stats.pixel_count, 0)
+    let dominant: string | null = null
+    let dominantPixels = 0
+    for (const [name, stats] of species) {
+      const total = totals.get(name) ?? { pixels: 0, weighted: 0, dominant: 0, present: 0 }
+      total.pixels += stats.pixel_count
+      total.weighted += stats.pixel_count * (stats.avg_confidence ?? 0)
+      if (stats.pixel_count >= fieldPixels * PRESENCE_SHARE) total.present++
+      totals.set(name, total)
+      if (stats.pixel_count > dominantPixels) {
+        dominant = name
+        dominantPixels = stats.pixel_count
+      }
+    }
+    if (dominant) totals.get(dominant)!.dominant++
+    return dominant
+  })
+
+  const allPixels = [...totals.values()].reduce((sum, total) => sum + total.pixels, 0)
+  const allWeighted = [...totals.values()].reduce((sum, total) => sum + total.weighted, 0)
+  const species = [...totals.entries()]
+    .map(([name, total]) => ({
+      name,
+      pixelCount: total.pixels,
+      pixelShare: allPixels > 0 ? total.pixels / allPixels : 0,
+      confidenceShare: allWeighted > 0 ? total.weighted / allWeighted : 0,
+      fieldsDominant: total.dominant,
+      fieldsPresent: total.present,
+    }))
+    .sort((a, b) => b.confidenceShare - a.confidenceShare)
+
+  const fieldsWithSpecies = dominantByField.filter((name) => name !== null).length
+  const verdict = species[0]?.name ?? null
+  const agreement = fieldsWithSpecies > 0 ? (species[0]?.fieldsDominant ?? 0) / fieldsWithSpecies : 0
+
+  const flags: string[] = []
+  if (verdict && agreement < MIN_AGREEMENT) {
+    flags.push(`Only ${species[0].fieldsDominant} of ${fieldsWithSpecies} fields are dominated by ${verdict}`)
+  }
+  const byPixels = species.reduce<SpeciesConsensus | null>((best, s) => (!best || s.pixelShare > best.pixelShare ? s : best), null)
+  if (verdict && byPixels && byPixels.name !== verdict) {
+    flags.push(`Pixel-weighted share favours ${byPixels.name}, confidence-weighted share favours ${verdict}`)
+  }
+  const mixed = species.filter((s) => s.fieldsDominant > 0)
+  if (mixed.length > 1) {
+    flags.push(`Fields disagree: ${mixed.map((s) => `${s.name} in ${s.fieldsDominant}`).join(", ")}`)
+  }
+
+  return { fields: fields.length, fieldsWithSpecies, species, verdict, agreement, dominantByField, flags }
+}
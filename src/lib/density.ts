@@ -0,0 +1,77 @@
+export type SmearType = "thick-20" | "thick-60" | "chamber"
+
+export interface DensitySettings {
+  smearType: SmearType
+  /** Blood volume on the smear or loaded into the chamber, in µL */
+  volumeUl: number
+  /** Fields the whole smear/chamber is divided into */
+  fieldsTotal: number
+  /** Fields covered by one uploaded image (more than one for stitched scans) */
+  fieldsPerImage: number
+}
+
+export interface DensityEstimate {
+  count: number
+  /** May exceed `fieldsTotal` when settings are inconsistent; the volume is capped at the whole smear */
+  fieldsAnalysed: number
+  /** Blood volume actually examined, in µL */
+  examinedVolumeUl: number
+  /** Microfilariae per mL of blood */
+  perMl: number
+  lower: number
+  upper: number
+}
+
+export const SMEAR_PRESETS: Record<SmearType, { label: string; volumeUl: number }> = {
+  "thick-20": { label: "Thick smear, 20 µL", volumeUl: 20 },
+  "thick-60": { label: "Thick smear, 60 µL", volumeUl: 60 },
+  chamber: { label: "Counting chamber", volumeUl: 100 },
+}
+
+export const DEFAULT_DENSITY_SETTINGS: DensitySettings = {
+  smearType: "thick-20",
+  volumeUl: SMEAR_PRESETS["thick-20"].volumeUl,
+  fieldsTotal: 1,
+  fieldsPerImage: 1,
+}
+
+// Two-sided 95% normal quantile
+const Z_95 = 1.959964
+
+/**
+ * 95% confidence interval for a Poisson count (Byar's approximation; exact
+ * upper bound for zero counts).
+ */
+export function poissonInterval(count: number): [number, number] {
+  if (count <= 0) return [0, -Math.log(0.025)]
+  const lower = count * Math.pow(1 - 1 / (9 * count) - Z_95 / (3 * Math.sqrt(count)), 3)
+  const next = count + 1
+  const upper = next * Math.pow(1 - 1 / (9 * next) + Z_95 / (3 * Math.sqrt(next)), 3)
+  return [Math.max(0, lower), upper]
+}
+
+/**
+ * Converts the larva count over `images` analysed images into microfilaraemia
+ * (mf/mL). The examined volume is the smear volume scaled by the share of
+ * fields analysed; the interval treats the count as Poisson.
+ */
+export function estimateDensity(count: number, images: number, settings: DensitySettings): DensityEstimate | null {
+  const { volumeUl, fieldsTotal, fieldsPerImage } = settings
+  const fieldsAnalysed = images * fieldsPerImage
+  if (volumeUl <= 0 || fieldsTotal <= 0 || fieldsAnalysed <= 0) return null
+  const examinedVolumeUl = volumeUl * Math.min(1, fieldsAnalysed / fieldsTotal)
+  const perUlToPerMl = 1000 / examinedVolumeUl
+  const [lower, upper] = poissonInterval(count)
+  return {
+    count,
+    fieldsAnalysed,
+    examinedVolumeUl,
+    perMl: count * perUlToPerMl,
+    lower: lower * perUlToPerMl,
+    upper: upper * perUlToPerMl,
+  }
+}
+
+export function formatDensity(value: number): string {
+  return value >= 100 ? Math.round(value).toLocaleString() : value.toFixed(1)
+}
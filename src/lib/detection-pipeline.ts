@@ -0,0 +1,59 @@
+import { requestDetection, type DetectionResponse } from "@/lib/detection"
+import { prepareImage, toOriginalCoordinates, type MaxDimension, type PreparedImage } from "@/lib/preprocess"
+import { checkQuality, type QualityReport } from "@/lib/quality"
+import { normalizePrepared, type StainReference } from "@/lib/stain-normalization"
+import { detectTiled, type TilingOptions } from "@/lib/tiling"
+
+export interface DetectionPipelineSettings {
+  /** Resampling limit; ignored when tiling, which keeps full resolution */
+  maxDimension: MaxDimension
+  /** Split into overlapping tiles instead of sending one image; `null` sends one request */
+  tiling: TilingOptions | null
+  /** Normalize colours to this slide before upload; `null` uploads them unchanged */
+  stainReference: StainReference | null
+  /** Run even when the quality gate fails */
+  overrideQuality: boolean
+}
+
+export interface DetectionUpload {
+  /** Geometry of the upload relative to the original file */
+  prepared: PreparedImage
+  /** What is sent: `prepared`, stain-normalized when a reference is set */
+  upload: PreparedImage
+  quality: QualityReport
+  settings: DetectionPipelineSettings
+}
+
+/**
+ * Everything before the request: EXIF rotation and resampling, the quality
+ * gate on the image as captured, then stain normalization. Throws
+ * `QualityGateError` for a failing image unless overridden.
+ */
+export async function prepareDetectionUpload(file: File, settings: DetectionPipelineSettings): Promise<DetectionUpload> {
+  const prepared = await prepareImage(file, settings.tiling ? null : settings.maxDimension)
+  // Quality is judged on the image as captured, before any colour correction
+  const quality = await checkQuality(prepared.blob, settings.overrideQuality)
+  const upload = settings.stainReference ? await normalizePrepared(prepared, settings.stainReference) : prepared
+  return { prepared, upload, quality, settings }
+}
+
+/**
+ * Detects a prepared upload, tiled or as one request, and maps the boxes
+ * back to the original image. `apiUrl` defaults to the build's detection API.
+ * Can be called several times on one upload, e.g. to compare thresholds.
+ */
+export async function detectUpload(
+  { prepared, upload, quality, settings }: DetectionUpload,
+  confidence: number,
+  onProgress?: (progress: number) => void,
+  apiUrl?: string,
+): Promise<DetectionResponse> {
+  const response = settings.tiling
+    ? await detectTiled(upload.blob, upload.filename, confidence, settings.tiling, (done, total) => onProgress?.(done / total), apiUrl)
+    : await requestDetection(upload.blob, confidence, upload.filename, apiUrl)
+  return {
+    ...toOriginalCoordinates(response, prepared),
+    quality,
+    ...(settings.stainReference ? { stainNormalization: { method: "reinhard" as const, reference: settings.stainReference.name } } : {}),
+  }
+}
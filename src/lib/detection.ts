@@ -0,0 +1,145 @@
+import type { QualityReport } from "@/lib/quality"
+import { checkUploadSize } from "@/lib/preprocess"
+
+// 10x YOLO / Detect API response types (snake_case from API)
+export interface Detection {
+  id: number
+  class: string
+  confidence: number
+  bbox: {
+    x1: number
+    y1: number
+    x2: number
+    y2: number
+  }
+}
+
+export interface DetectionResponse {
+  success: boolean
+  timestamp: string
+  image_info: {
+    width: number
+    height: number
+    filename: string
+  }
+  detection_stats: {
+    total_count: number
+    average_confidence: number
+    confidence_threshold: number
+  }
+  detections: Detection[]
+  annotated_image: string
+  /** Set client-side when the result was stitched from tiles (see lib/tiling) */
+  tiling?: {
+    tile_size: number
+    overlap: number
+    tile_count: number
+  }
+  /** Set client-side when the upload was rotated or resampled first (see lib/preprocess) */
+  preprocessing?: {
+    scale: number
+    orientation: number
+  }
+  /** Client-side quality gate scores for the uploaded image (see lib/quality) */
+  quality?: QualityReport
+  /** Set client-side when colours were normalized to a reference slide (see lib/stain-normalization) */
+  stainNormalization?: {
+    method: "reinhard"
+    reference: string
+  }
+}
+
+export interface BatchSummary {
+  images: number
+  totalCount: number
+  averageConfidence: number
+}
+
+/**
+ * POSTs one image to `/api/detect` and resolves with the parsed response.
+ * Rejects with a user-facing message when the API is unreachable or reports a failure.
+ * `apiUrl` selects another backend, e.g. a staging model, instead of `NEXT_PUBLIC_API_URL`.
+ */
+export async function requestDetection(
+  image: Blob,
+  confidence: number,
+  filename?: string,
+  apiUrl = process.env.NEXT_PUBLIC_API_URL,
+): Promise<DetectionResponse> {
+  checkUploadSize(image, filename)
+
+  const formData = new FormData()
+  if (filename) {
+    formData.append("image", image, filename)
+  } else {
+    formData.append("image", image)
+  }
+  formData.append("confidence", confidence.toString())
+
+  let response: Response
+  try {
+    response = await fetch(`${apiUrl}/api/detect`, {
+      method: "POST",
+      body: formData,
+    })
+  } catch (err) {
+    console.error(err)
+    throw new Error(apiUrl === process.env.NEXT_PUBLIC_API_URL
+      ? "Failed to connect to API. Make sure Flask server is running on port 1000"
+      : `Failed to connect to ${apiUrl}`)
+  }
+
+  const data = await response.json()
+  if (!data.success) {
+    throw new Error(data.error || "Detection failed")
+  }
+  return data as DetectionResponse
+}
+
+/**
+ * Aggregates several detection results into one batch figure.
+ * The average confidence is weighted by each image's detection count,
+ * so a field with 20 larvae counts 20 times as much as a field with one.
+ */
+export function summarizeBatch(results: DetectionResponse[]): BatchSummary {
+  let totalCount = 0
+  let weightedConfidence = 0
+  for (const result of results) {
+    const { total_count, average_confidence } = result.detection_stats
+    totalCount += total_count
+    weightedConfidence += average_confidence * total_count
+  }
+  return {
+    images: results.length,
+    totalCount,
+    averageConfidence: totalCount > 0 ? weightedConfidence / totalCount : 0,
+  }
+}
+
+/**
+ * Lowest threshold the API is queried with. Every detection above it is kept,
+ * so the confidence slider can be applied client-side without re-uploading.
+ */
+export const DETECTION_FLOOR_CONFIDENCE = 0.1
+
+/**
+ * Returns a copy of `response` holding only detections at or above `threshold`,
+ * with `detection_stats` recomputed to match.
+ */
+export function filterByConfidence(response: DetectionResponse, threshold: number): DetectionResponse {
+  const detections = response.detections.filter((detection) => detection.confidence >= threshold)
+  const totalConfidence = detections.reduce((sum, detection) => sum + detection.confidence, 0)
+  return {
+    ...response,
+    detections,
+    detection_stats: {
+      total_count: detections.length,
+      average_confidence: detections.length > 0 ? totalConfidence / detections.length : 0,
+      confidence_threshold: threshold,
+    },
+  }
+}
+
+export function formatBBox(bbox: Detection["bbox"]): string {
+  return `[${bbox.x1.toFixed(0)}, ${bbox.y1.toFixed(0)}, ${bbox.x2.toFixed(0)}, ${bbox.y2.toFixed(0)}]`
+}
@@ -0,0 +1,72 @@
+import type { ClassStatistics } from "@/lib/segmentation"
+
+/** One species in the ranked differential */
+export interface DifferentialEntry {
+  name: string
+  /** Share of the species pixels in the field, 0–1 (background excluded) */
+  share: number
+  avgConfidence: number
+  /** Share weighted by mean confidence and normalized over the species, 0–1 */
+  score: number
+}
+
+export interface DifferentialSettings {
+  /** Flag when the top two scores are closer than this, 0–1 */
+  marginCutoff: number
+  /** A species counts as present from this share of species pixels, 0–1 */
+  presenceThreshold: number
+}
+
+export interface Differential {
+  ranked: DifferentialEntry[]
+  /** Score gap between the top two species; `null` with fewer than two */
+  margin: number | null
+  /** Species at or above the presence threshold */
+  present: string[]
+  ambiguous: boolean
+  /** Why the result is ambiguous; empty otherwise */
+  reasons: string[]
+}
+
+export const DEFAULT_DIFFERENTIAL_SETTINGS: DifferentialSettings = {
+  marginCutoff: 0.2,
+  presenceThreshold: 0.15,
+}
+
+/**
+ * Ranks the species of one field by pixel share × mean confidence and flags
+ * the call as ambiguous when the top two are close or several species are
+ * present, e.g. a near tie between Brugia malayi and Brugia pahangi or a
+ * mixed infection.
+ */
+export function buildDifferential(
+  classStatistics: Record<string, ClassStatistics>,
+  settings: DifferentialSettings = DEFAULT_DIFFERENTIAL_SETTINGS,
+): Differential {
+  const species = Object.entries(classStatistics).filter(
+    ([name, stats]) => stats.class_id !== 0 && name.toLowerCase() !== "background" && (stats.percentage ?? 0) > 0
+  )
+  const totalPercentage = species.reduce((sum, [, stats]) => sum + stats.percentage, 0)
+  const weighted = species.map(([name, stats]) => ({
+    name,
+    share: totalPercentage > 0 ? stats.percentage / totalPercentage : 0,
+    avgConfidence: stats.avg_confidence ?? 0,
+  }))
+  const totalWeight = weighted.reduce((sum, entry) => sum + entry.share * entry.avgConfidence, 0)
+  const ranked = weighted
+    .map((entry) => ({ ...entry, score: totalWeight > 0 ? (entry.share * entry.avgConfidence) / totalWeight : 0 }))
+    .sort((a, b) => b.score - a.score)
+
+  const margin = ranked.length >= 2 ? ranked[0].score - ranked[1].score : null
+  const present = ranked.filter((entry) => entry.share >= settings.presenceThreshold).map((entry) => entry.name)
+
+  const reasons: string[] = []
+  if (margin !== null && margin < settings.marginCutoff) {
+    reasons.push(`${ranked[0].name} leads ${ranked[1].name} by only ${(margin * 100).toFixed(1)} points`)
+  }
+  if (present.length > 1) {
+    reasons.push(`${present.length} species above ${(settings.presenceThreshold * 100).toFixed(0)}% of species pixels: ${present.join(", ")}`)
+  }
+
+  return { ranked, margin, present, ambiguous: reasons.length > 0, reasons }
+}
@@ -0,0 +1,48 @@
+// Shared by the real-time page and its frame worker: message shapes and mask colouring
+
+/** RGBA per U-Net class id in the live overlay; unknown ids stay transparent */
+export const LIVE_MASK_COLORS: Record<number, [number, number, number, number]> = {
+  0: [0, 0, 0, 0],        // Background - transparent
+  1: [0, 255, 0, 100],    // WB - Green
+  2: [255, 0, 0, 100],    // BM - Red
+  3: [255, 255, 0, 100],  // BT - Yellow
+  4: [0, 0, 255, 100],    // BP - Blue
+}
+
+// One RGBA entry per possible class id byte, so the pixel loop is a table lookup
+const COLOR_TABLE = (() => {
+  const table = new Uint8ClampedArray(256 * 4)
+  Object.entries(LIVE_MASK_COLORS).forEach(([id, rgba]) => table.set(rgba, Number(id) * 4))
+  return table
+})()
+
+/**
+ * Decodes a base64 class-id mask straight into RGBA pixels, without an
+ * intermediate byte array. Throws when the mask does not match its shape.
+ */
+export function maskToRgba(mask: string, width: number, height: number): Uint8ClampedArray<ArrayBuffer> {
+  const binary = atob(mask)
+  if (binary.length !== width * height) {
+    throw new Error(`Mask has ${binary.length} pixels, expected ${width} × ${height}`)
+  }
+  const rgba = new Uint8ClampedArray(binary.length * 4)
+  for (let i = 0; i < binary.length; i++) {
+    const entry = binary.charCodeAt(i) * 4
+    rgba[i * 4] = COLOR_TABLE[entry]
+    rgba[i * 4 + 1] = COLOR_TABLE[entry + 1]
+    rgba[i * 4 + 2] = COLOR_TABLE[entry + 2]
+    rgba[i * 4 + 3] = COLOR_TABLE[entry + 3]
+  }
+  return rgba
+}
+
+export type FrameWorkerRequest =
+  /** Downscale a captured frame to `maxWidth` and encode it as JPEG */
+  | { type: "encode"; id: number; bitmap: ImageBitmap; maxWidth: number; quality: number }
+  /** Colour a base64 mask into RGBA pixels */
+  | { type: "mask"; id: number; mask: string; width: number; height: number }
+
+export type FrameWorkerResponse =
+  | { type: "encoded"; id: number; buffer: ArrayBuffer }
+  | { type: "mask"; id: number; rgba: ArrayBuffer }
+  | { type: "error"; id: number; message: string }
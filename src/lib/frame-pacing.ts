@@ -0,0 +1,110 @@
+// Real-time streaming: how fast and how large frames are sent, driven by the measured round trip
+
+export interface PacingSettings {
+  /** Frames sent but not yet answered; 1 waits for each result before sending the next */
+  maxInFlight: number
+  /** Round trip the encoder settings aim for, in ms */
+  targetLatency: number
+}
+
+export interface PacingState {
+  /** Smoothed round-trip time in ms; `null` before the first result */
+  rtt: number | null
+  /** frame_id → send time, for frames still awaiting a result */
+  inFlight: Map<number, number>
+  /** Newest frame whose result was shown; results for older frames are dropped */
+  lastShownFrameId: number
+  /** Results that arrived after a newer one */
+  dropped: number
+  /** JPEG quality, 0–1 */
+  quality: number
+  /** Frames are downscaled to this width before encoding */
+  maxWidth: number
+}
+
+export const DEFAULT_PACING_SETTINGS: PacingSettings = { maxInFlight: 1, targetLatency: 250 }
+
+export const MAX_IN_FLIGHT_OPTIONS = [1, 2, 3, 4] as const
+
+// Weight of the newest sample in the RTT average
+const RTT_SMOOTHING = 0.2
+const MIN_INTERVAL = 33
+const MAX_INTERVAL = 1000
+// A frame without a result after this long is given up on, so a lost reply cannot stall the stream
+const FRAME_TIMEOUT = 5000
+
+const MAX_QUALITY = 0.8
+const MIN_QUALITY = 0.4
+const QUALITY_STEP = 0.05
+/** Capture widths from sharpest to lightest; quality is lowered first, then width */
+const WIDTH_STEPS = [640, 480, 320]
+
+export function createPacingState(): PacingState {
+  return { rtt: null, inFlight: new Map(), lastShownFrameId: 0, dropped: 0, quality: 0.7, maxWidth: WIDTH_STEPS[0] }
+}
+
+/** Wait before the next capture: one round trip spread over the frames allowed in flight. */
+export function nextFrameDelay(state: PacingState, settings: PacingSettings): number {
+  if (state.rtt === null) return 100
+  return Math.min(MAX_INTERVAL, Math.max(MIN_INTERVAL, state.rtt / settings.maxInFlight))
+}
+
+/** Whether another frame may be sent now; frames past the timeout stop counting. */
+export function canSendFrame(state: PacingState, settings: PacingSettings, now: number): boolean {
+  state.inFlight.forEach((sentAt, frameId) => {
+    if (now - sentAt > FRAME_TIMEOUT) state.inFlight.delete(frameId)
+  })
+  return state.inFlight.size < settings.maxInFlight
+}
+
+export function markFrameSent(state: PacingState, frameId: number, now: number) {
+  state.inFlight.set(frameId, now)
+}
+
+/**
+ * Records a result: updates the RTT average and the encoder settings, and
+ * tells whether the result should be shown. Results for frames older than
+ * the one on screen are dropped so a slow reply cannot overwrite a newer one.
+ */
+export function receiveFrameResult(
+  state: PacingState,
+  settings: PacingSettings,
+  frameId: number,
+  now: number,
+): { show: boolean; rtt: number | null } {
+  const sentAt = state.inFlight.get(frameId)
+  state.inFlight.delete(frameId)
+
+  let sample: number | null = null
+  if (sentAt !== undefined) {
+    sample = now - sentAt
+    state.rtt = state.rtt === null ? sample : state.rtt + RTT_SMOOTHING * (sample - state.rtt)
+    adaptEncoding(state, settings)
+  }
+
+  if (frameId <= state.lastShownFrameId) {
+    state.dropped++
+    return { show: false, rtt: sample }
+  }
+  state.lastShownFrameId = frameId
+  return { show: true, rtt: sample }
+}
+
+// Steps down quality, then width, when the round trip runs over target; recovers in reverse
+function adaptEncoding(state: PacingState, settings: PacingSettings) {
+  if (state.rtt === null) return
+  const widthIndex = WIDTH_STEPS.indexOf(state.maxWidth)
+  if (state.rtt > settings.targetLatency * 1.25) {
+    if (state.quality > MIN_QUALITY) {
+      state.quality = Math.max(MIN_QUALITY, Math.round((state.quality - QUALITY_STEP) * 100) / 100)
+    } else if (widthIndex < WIDTH_STEPS.length - 1) {
+      state.maxWidth = WIDTH_STEPS[widthIndex + 1]
+    }
+  } else if (state.rtt < settings.targetLatency * 0.75) {
+    if (widthIndex > 0) {
+      state.maxWidth = WIDTH_STEPS[widthIndex - 1]
+    } else if (state.quality < MAX_QUALITY) {
+      state.quality = Math.min(MAX_QUALITY, Math.round((state.quality + QUALITY_STEP) * 100) / 100)
+    }
+  }
+}
@@ -0,0 +1,90 @@
+import type { FrameWorkerRequest, FrameWorkerResponse } from "@/lib/frame-codec"
+
+export interface FrameWorkerClient {
+  /** Encodes a frame as JPEG in the worker; the bitmap is transferred and closed there */
+  encode: (bitmap: ImageBitmap, maxWidth: number, quality: number) => Promise<ArrayBuffer>
+  /** RGBA pixels for a base64 class-id mask of the given size */
+  maskToRgba: (mask: string, width: number, height: number) => Promise<Uint8ClampedArray<ArrayBuffer>>
+  terminate: () => void
+}
+
+/** Whether this browser can run the frame worker; without it the page encodes and decodes on the main thread. */
+export function supportsFrameWorker(): boolean {
+  return typeof Worker !== "undefined"
+    && typeof OffscreenCanvas !== "undefined"
+    && typeof OffscreenCanvas.prototype.convertToBlob === "function"
+    && typeof createImageBitmap === "function"
+}
+
+/**
+ * Starts the frame worker and wraps its messages in promises. When the worker
+ * itself fails (script did not load, uncaught error, a message that cannot be
+ * cloned) every pending and later request is rejected and `onFailure` is
+ * called once, so the caller can fall back to the main thread.
+ */
+export function createFrameWorker(onFailure?: (error: Error) => void): FrameWorkerClient {
+  const worker = new Worker(new URL("./frame-worker.ts", import.meta.url), { type: "module" })
+  const pending = new Map<number, { resolve: (response: FrameWorkerResponse) => void; reject: (error: Error) => void }>()
+  let nextId = 1
+  let failure: Error | null = null
+
+  const rejectAll = (error: Error) => {
+    pending.forEach((request) => request.reject(error))
+    pending.clear()
+  }
+
+  const fail = (error: Error) => {
+    if (failure) return
+    failure = error
+    worker.terminate()
+    rejectAll(error)
+    onFailure?.(error)
+  }
+
+  worker.onmessage = (event: MessageEvent<FrameWorkerResponse>) => {
+    const response = event.data
+    const request = pending.get(response.id)
+    if (!request) return
+    pending.delete(response.id)
+    if (response.type === "error") request.reject(new Error(response.message))
+    else request.resolve(response)
+  }
+
+  worker.onerror = (event: ErrorEvent) => {
+    event.preventDefault()
+    fail(new Error(event.message ? `Frame worker failed: ${event.message}` : "Frame worker failed to load"))
+  }
+  worker.onmessageerror = () => fail(new Error("Frame worker sent a message that could not be read"))
+
+  const send = (request: FrameWorkerRequest, transfer: Transferable[] = []) =>
+    new Promise<FrameWorkerResponse>((resolve, reject) => {
+      if (failure) {
+        reject(failure)
+        return
+      }
+      pending.set(request.id, { resolve, reject })
+      try {
+        worker.postMessage(request, transfer)
+      } catch (error) {
+        pending.delete(request.id)
+        reject(error instanceof Error ? error : new Error(String(error)))
+      }
+    })
+
+  return {
+    encode: async (bitmap, maxWidth, quality) => {
+      const response = await send({ type: "encode", id: nextId++, bitmap, maxWidth, quality }, [bitmap])
+      if (response.type !== "encoded") throw new Error("Unexpected reply from frame worker")
+      return response.buffer
+    },
+    maskToRgba: async (mask, width, height) => {
+      const response = await send({ type: "mask", id: nextId++, mask, width, height })
+      if (response.type !== "mask") throw new Error("Unexpected reply from frame worker")
+      return new Uint8ClampedArray(response.rgba)
+    },
+    terminate: () => {
+      worker.terminate()
+      rejectAll(new Error("Frame worker stopped"))
+    },
+  }
+}
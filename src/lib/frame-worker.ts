@@ -0,0 +1,43 @@
+// Web Worker for real-time streaming: JPEG encoding and mask colouring off the main thread.
+// Results go back as transferred buffers, so nothing is copied between threads.
+import { maskToRgba, type FrameWorkerRequest, type FrameWorkerResponse } from "@/lib/frame-codec"
+
+// Reused for every frame; only resized when the capture size changes
+let canvas: OffscreenCanvas | null = null
+
+async function encode(bitmap: ImageBitmap, maxWidth: number, quality: number): Promise<ArrayBuffer> {
+  const scale = Math.min(1, maxWidth / bitmap.width)
+  const width = Math.round(bitmap.width * scale)
+  const height = Math.round(bitmap.height * scale)
+  if (!canvas) canvas = new OffscreenCanvas(width, height)
+  if (canvas.width !== width || canvas.height !== height) {
+    canvas.width = width
+    canvas.height = height
+  }
+  const ctx = canvas.getContext("2d")
+  if (!ctx) throw new Error("OffscreenCanvas 2D context unavailable")
+  ctx.drawImage(bitmap, 0, 0, width, height)
+  bitmap.close()
+  const blob = await canvas.convertToBlob({ type: "image/jpeg", quality })
+  return blob.arrayBuffer()
+}
+
+function reply(response: FrameWorkerResponse, transfer: Transferable[] = []) {
+  self.postMessage(response, { transfer })
+}
+
+self.onmessage = async (event: MessageEvent<FrameWorkerRequest>) => {
+  const request = event.data
+  try {
+    if (request.type === "encode") {
+      const buffer = await encode(request.bitmap, request.maxWidth, request.quality)
+      reply({ type: "encoded", id: request.id, buffer }, [buffer])
+    } else {
+      const rgba = maskToRgba(request.mask, request.width, request.height)
+      reply({ type: "mask", id: request.id, rgba: rgba.buffer }, [rgba.buffer])
+    }
+  } catch (error) {
+    if (request.type === "encode") request.bitmap.close()
+    reply({ type: "error", id: request.id, message: error instanceof Error ? error.message : String(error) })
+  }
+}
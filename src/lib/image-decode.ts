@@ -0,0 +1,205 @@
+import type { IFD } from "utif"
+import { createCanvas } from "@/lib/canvas"
+import { ACCEPTED_IMAGE_TYPES, MAX_UPLOAD_BYTES, validateImageFile } from "@/lib/preprocess"
+
+export type DecodableFormat = "tiff" | "heic"
+
+/** One browser-readable image produced from a TIFF page or HEIC file */
+export interface DecodedPage {
+  file: File
+  /** 1-based page number within the source file */
+  page: number
+  pageCount: number
+  width: number
+  height: number
+  /** Bits per sample of the source page, e.g. 16 for scientific camera TIFFs */
+  bitDepth: number
+}
+
+/** Pages from one multi-page file, waiting for the user to pick which to analyse */
+export interface PageStack {
+  source: File
+  pages: DecodedPage[]
+}
+
+export const DECODABLE_IMAGE_TYPES = ["image/tiff", "image/heic", "image/heif"]
+export const DECODABLE_EXTENSIONS = [".tif", ".tiff", ".heic", ".heif"]
+/** `accept` attribute for upload inputs */
+export const UPLOAD_ACCEPT = [...ACCEPTED_IMAGE_TYPES, ...DECODABLE_IMAGE_TYPES, ...DECODABLE_EXTENSIONS].join(",")
+// Raw TIFF stacks are far larger than what is uploaded; decoded pages are resampled or re-encoded
+const MAX_DECODE_BYTES = 200 * 1024 * 1024
+
+// Share of darkest and brightest samples clipped when stretching >8-bit data to 8 bits
+const STRETCH_CLIP = 0.001
+
+/** Which in-browser decoder `file` needs, or `null` for formats the browser reads itself. */
+export function decodableFormat(file: File): DecodableFormat | null {
+  const name = file.name.toLowerCase()
+  if (file.type === "image/tiff" || name.endsWith(".tif") || name.endsWith(".tiff")) return "tiff"
+  if (file.type === "image/heic" || file.type === "image/heif" || name.endsWith(".heic") || name.endsWith(".heif")) return "heic"
+  return null
+}
+
+function tagNumber(ifd: IFD, tag: string, fallback: number): number {
+  const value = ifd[tag]
+  if (typeof value === "number") return value
+  if (Array.isArray(value) && typeof value[0] === "number") return value[0]
+  return fallback
+}
+
+/**
+ * Converts a 16-bit greyscale or RGB page to RGBA8 with a percentile
+ * contrast stretch; cameras often fill only 10–12 of the 16 bits, which
+ * would otherwise render nearly black.
+ */
+function stretch16(ifd: IFD, littleEndian: boolean): Uint8Array {
+  const samples = tagNumber(ifd, "t277", 1)
+  const photometric = tagNumber(ifd, "t262", 1)
+  const bytes = ifd.data
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const pixels = ifd.width * ifd.height
+  const values = new Uint16Array(pixels * samples)
+  const histogram = new Uint32Array(65536)
+  for (let i = 0; i < values.length; i++) {
+    const value = view.getUint16(i * 2, littleEndian)
+    values[i] = value
+    histogram[value]++
+  }
+
+  const clip = values.length * STRETCH_CLIP
+  let low = 0
+  for (let seen = 0; low < 65535 && seen + histogram[low] <= clip; low++) seen += histogram[low]
+  let high = 65535
+  for (let seen = 0; high > low && seen + histogram[high] <= clip; high--) seen += histogram[high]
+  const range = Math.max(1, high - low)
+  const to8 = (value: number) => Math.max(0, Math.min(255, Math.round(((value - low) / range) * 255)))
+
+  const rgba = new Uint8Array(pixels * 4)
+  for (let p = 0; p < pixels; p++) {
+    const base = p * samples
+    if (samples >= 3) {
+      rgba[p * 4] = to8(values[base])
+      rgba[p * 4 + 1] = to8(values[base + 1])
+      rgba[p * 4 + 2] = to8(values[base + 2])
+    } else {
+      // Photometric 0 is WhiteIsZero
+      const grey = photometric === 0 ? 255 - to8(values[base]) : to8(values[base])
+      rgba[p * 4] = rgba[p * 4 + 1] = rgba[p * 4 + 2] = grey
+    }
+    rgba[p * 4 + 3] = 255
+  }
+  return rgba
+}
+
+/**
+ * Encodes RGBA pixels as PNG, falling back to JPEG when the PNG would be too
+ * large to upload.
+ */
+async function encodePage(rgba: Uint8Array, width: number, height: number, name: string): Promise<File> {
+  const [canvas, ctx] = createCanvas(width, height)
+  const imageData = ctx.createImageData(width, height)
+  imageData.data.set(rgba)
+  ctx.putImageData(imageData, 0, 0)
+
+  const encode = (type: string, quality?: number) =>
+    new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, type, quality))
+  let blob = await encode("image/png")
+  let extension = "png"
+  if (!blob || blob.size > MAX_UPLOAD_BYTES) {
+    blob = await encode("image/jpeg", 0.95)
+    extension = "jpg"
+  }
+  if (!blob) throw new Error(`${name}: could not be converted`)
+  return new File([blob], `${name}.${extension}`, { type: blob.type })
+}
+
+async function decodeTiff(file: File): Promise<DecodedPage[]> {
+  const UTIF = await import("utif")
+  const buffer = await file.arrayBuffer()
+  const littleEndian = new Uint8Array(buffer, 0, 2)[0] === 0x49
+  // Reduced-resolution thumbnails (NewSubfileType bit 0) are not pages
+  const ifds = UTIF.decode(buffer).filter((ifd) => ifd.t256 && ifd.t257 && (tagNumber(ifd, "t254", 0) & 1) === 0)
+  if (ifds.length === 0) throw new Error(`${file.name}: no images found in TIFF`)
+
+  const base = file.name.replace(/\.[^.]+$/, "")
+  const pages: DecodedPage[] = []
+  for (const [index, ifd] of ifds.entries()) {
+    UTIF.decodeImage(buffer, ifd)
+    const bitDepth = tagNumber(ifd, "t258", 8)
+    const rgba = bitDepth === 16 ? stretch16(ifd, littleEndian) : UTIF.toRGBA8(ifd)
+    const name = ifds.length > 1 ? `${base}_p${index + 1}` : base
+    pages.push({
+      file: await encodePage(rgba, ifd.width, ifd.height, name),
+      page: index + 1,
+      pageCount: ifds.length,
+      width: ifd.width,
+      height: ifd.height,
+      bitDepth,
+    })
+    // Pixel data of decoded pages is no longer needed once encoded
+    ifd.data = new Uint8Array(0)
+  }
+  return pages
+}
+
+async function decodeHeic(file: File): Promise<DecodedPage[]> {
+  const { default: heic2any } = await import("heic2any")
+  const converted = await heic2any({ blob: file, toType: "image/jpeg", quality: 0.95 })
+  const blob = Array.isArray(converted) ? converted[0] : converted
+  const bitmap = await createImageBitmap(blob)
+  const { width, height } = bitmap
+  bitmap.close()
+  const name = `${file.name.replace(/\.[^.]+$/, "")}.jpg`
+  return [{ file: new File([blob], name, { type: "image/jpeg" }), page: 1, pageCount: 1, width, height, bitDepth: 8 }]
+}
+
+/**
+ * Decodes a TIFF (every page, 8- or 16-bit) or HEIC file in the browser into
+ * PNG/JPEG files that can be previewed and uploaded like any other image.
+ */
+export async function decodeImageFile(file: File): Promise<DecodedPage[]> {
+  const format = decodableFormat(file)
+  if (file.size > MAX_DECODE_BYTES) {
+    throw new Error(`${file.name}: ${(file.size / 1024 / 1024).toFixed(0)} MB exceeds the 200 MB limit for ${format?.toUpperCase()} files.`)
+  }
+  try {
+    if (format === "tiff") return await decodeTiff(file)
+    if (format === "heic") return await decodeHeic(file)
+  } catch (err) {
+    console.error(err)
+    throw new Error(`${file.name}: could not be decoded. The file may be corrupt or use an unsupported ${format?.toUpperCase()} variant.`)
+  }
+  throw new Error(`${file.name}: not a TIFF or HEIC file`)
+}
+
+/**
+ * Turns selected files into uploadable images: JPEG/PNG are validated as
+ * they are, TIFF/HEIC are decoded. Multi-page files come back as stacks so
+ * the caller can offer a page picker; failures are collected as messages.
+ * `checkSize: false` skips the source-size limit for images that will be
+ * resampled or tiled before upload.
+ */
+export async function resolveUploads(
+  selected: File[],
+  { checkSize = true }: { checkSize?: boolean } = {},
+): Promise<{ files: File[]; stacks: PageStack[]; errors: string[] }> {
+  const files: File[] = []
+  const stacks: PageStack[] = []
+  const errors: string[] = []
+  for (const file of selected) {
+    if (!decodableFormat(file)) {
+      const invalid = validateImageFile(file, checkSize)
+      if (invalid) errors.push(invalid)
+      else files.push(file)
+      continue
+    }
+    try {
+      const pages = await decodeImageFile(file)
+      if (pages.length > 1) stacks.push({ source: file, pages })
+      else files.push(pages[0].file)
+    } catch (err) {
+      errors.push(err instanceof Error ? err.message : String(err))
+    }
+  }
+  return { files, stacks, errors }
+}
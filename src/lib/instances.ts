@@ -0,0 +1,165 @@
+import type { Detection } from "@/lib/detection"
+import type { SegmentationClass, SegmentationMask } from "@/lib/segmentation"
+
+/** One connected region of a species class in the mask, i.e. one microfilaria */
+export interface WormInstance {
+  id: number
+  classId: number
+  className: string
+  /** Area in original-image pixels */
+  area: number
+  /** Bounding box in original-image pixels */
+  bbox: Detection["bbox"]
+  /** Length of the skeleton (medial line) in original-image pixels; an estimate of body length */
+  length: number
+}
+
+// Components smaller than this many mask pixels are speckle, not worms
+export const MIN_INSTANCE_PIXELS = 30
+
+// 8-connected neighbour offsets
+const NEIGHBOURS: [number, number][] = [[-1, -1], [0, -1], [1, -1], [-1, 0], [1, 0], [-1, 1], [0, 1], [1, 1]]
+
+/**
+ * Zhang–Suen thinning of a binary grid with a 1 px empty border, in place.
+ * Leaves a one-pixel-wide medial line.
+ */
+function thin(grid: Uint8Array, stride: number, rows: number) {
+  const clear: number[] = []
+  let changed = true
+  while (changed) {
+    changed = false
+    for (let pass = 0; pass < 2; pass++) {
+      clear.length = 0
+      for (let y = 1; y < rows - 1; y++) {
+        for (let x = 1; x < stride - 1; x++) {
+          const i = y * stride + x
+          if (!grid[i]) continue
+          // p2..p9 clockwise from north
+          const p = [
+            grid[i - stride], grid[i - stride + 1], grid[i + 1], grid[i + stride + 1],
+            grid[i + stride], grid[i + stride - 1], grid[i - 1], grid[i - stride - 1],
+          ]
+          const neighbours = p.reduce((sum, v) => sum + v, 0)
+          if (neighbours < 2 || neighbours > 6) continue
+          let transitions = 0
+          for (let k = 0; k < 8; k++) {
+            if (!p[k] && p[(k + 1) % 8]) transitions++
+          }
+          if (transitions !== 1) continue
+          const [p2, , p4, , p6, , p8] = p
+          if (pass === 0 ? p2 && p4 && p6 : p2 && p4 && p8) continue
+          if (pass === 0 ? p4 && p6 && p8 : p2 && p6 && p8) continue
+          clear.push(i)
+        }
+      }
+      clear.forEach((i) => (grid[i] = 0))
+      if (clear.length > 0) changed = true
+    }
+  }
+}
+
+/**
+ * Length of a thinned grid, summing links between neighbouring skeleton
+ * pixels. Diagonal links are skipped where an orthogonal path already joins
+ * the two pixels, so staircase corners are not counted twice.
+ */
+function skeletonLength(grid: Uint8Array, stride: number, rows: number, sx: number, sy: number): number {
+  const diagonal = Math.hypot(sx, sy)
+  let length = 0
+  for (let y = 1; y < rows - 1; y++) {
+    for (let x = 1; x < stride - 1; x++) {
+      const i = y * stride + x
+      if (!grid[i]) continue
+      const east = grid[i + 1]
+      const south = grid[i + stride]
+      if (east) length += sx
+      if (south) length += sy
+      if (grid[i + stride + 1] && !east && !south) length += diagonal
+      if (grid[i + stride - 1] && !grid[i - 1] && !south) length += diagonal
+    }
+  }
+  return length
+}
+
+/**
+ * Splits the class mask into connected components (8-connectivity) per
+ * species and measures each: area, bounding box and skeleton length, all
+ * scaled from mask to original-image pixels. Largest instances first.
+ */
+export function extractInstances(
+  mask: SegmentationMask,
+  classes: SegmentationClass[],
+  imageWidth: number,
+  imageHeight: number,
+  minPixels = MIN_INSTANCE_PIXELS,
+): WormInstance[] {
+  const { width, height, data } = mask
+  const sx = imageWidth / width
+  const sy = imageHeight / height
+  const names = new Map(classes.map((cls) => [cls.id, cls.name]))
+  const visited = new Uint8Array(width * height)
+  const stack: number[] = []
+  const instances: Omit<WormInstance, "id">[] = []
+
+  for (let start = 0; start < data.length; start++) {
+    const classId = data[start]
+    if (visited[start] || !names.has(classId)) continue
+
+    // Flood fill one component, collecting its pixels
+    const pixels: number[] = []
+    let minX = width, minY = height, maxX = 0, maxY = 0
+    visited[start] = 1
+    stack.push(start)
+    while (stack.length > 0) {
+      const i = stack.pop()!
+      pixels.push(i)
+      const x = i % width
+      const y = (i - x) / width
+      if (x < minX) minX = x
+      if (x > maxX) maxX = x
+      if (y < minY) minY = y
+      if (y > maxY) maxY = y
+      for (const [dx, dy] of NEIGHBOURS) {
+        const nx = x + dx
+        const ny = y + dy
+        if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue
+        const n = ny * width + nx
+        if (!visited[n] && data[n] === classId) {
+          visited[n] = 1
+          stack.push(n)
+        }
+      }
+    }
+    if (pixels.length < minPixels) continue
+
+    const stride = maxX - minX + 3
+    const rows = maxY - minY + 3
+    const grid = new Uint8Array(stride * rows)
+    pixels.forEach((i) => {
+      const x = i % width
+      const y = (i - x) / width
+      grid[(y - minY + 1) * stride + (x - minX + 1)] = 1
+    })
+    thin(grid, stride, rows)
+
+    instances.push({
+      classId,
+      className: names.get(classId)!,
+      area: pixels.length * sx * sy,
+      bbox: { x1: minX * sx, y1: minY * sy, x2: (maxX + 1) * sx, y2: (maxY + 1) * sy },
+      length: skeletonLength(grid, stride, rows, sx, sy),
+    })
+  }
+
+  return instances
+    .sort((a, b) => b.area - a.area)
+    .map((instance, index) => ({ ...instance, id: index + 1 }))
+}
+
+/** "2 × Wb, 1 × Bm" style count per species. */
+export function summarizeInstances(instances: WormInstance[]): string {
+  const counts = new Map<string, number>()
+  instances.forEach((instance) => counts.set(instance.className, (counts.get(instance.className) ?? 0) + 1))
+  return [...counts.entries()].map(([name, count]) => `${count} × ${name}`).join(", ")
+}
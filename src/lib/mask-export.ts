@@ -0,0 +1,312 @@
+import { strToU8, zipSync, zlibSync, type Zippable } from "fflate"
+import type { CategorizeImageResponse, SegmentationClass, SegmentationMask } from "@/lib/segmentation"
+
+export type MaskExportFormat = "png" | "geojson" | "qupath" | "zip"
+
+export const MASK_EXPORT_LABELS: Record<MaskExportFormat, string> = {
+  png: "Indexed PNG",
+  geojson: "GeoJSON",
+  qupath: "QuPath",
+  zip: "All (zip)",
+}
+
+type Ring = [number, number][]
+
+/** One class region: an outer boundary and its holes, in original-image pixels */
+export interface ClassPolygon {
+  classId: number
+  name: string
+  color: string
+  rings: Ring[]
+  /** Region area in original-image pixels */
+  area: number
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+function crc32(bytes: Uint8Array): number {
+  let c = 0xffffffff
+  for (let i = 0; i < bytes.length; i++) c = CRC_TABLE[(c ^ bytes[i]) & 255] ^ (c >>> 8)
+  return (c ^ 0xffffffff) >>> 0
+}
+
+function pngChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(12 + data.length)
+  const view = new DataView(chunk.buffer)
+  view.setUint32(0, data.length)
+  chunk.set(strToU8(type), 4)
+  chunk.set(data, 8)
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)))
+  return chunk
+}
+
+function hexToRgb(hex: string): [number, number, number] {
+  const value = parseInt(hex.slice(1), 16)
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255]
+}
+
+/**
+ * Encodes the mask as an 8-bit palette PNG whose pixel values are the
+ * `class_id`s, resampled (nearest neighbour) to `width` × `height` so it
+ * lines up with the original image. The palette carries the display colours,
+ * so the file is also viewable as is.
+ */
+export function encodeIndexedPng(mask: SegmentationMask, classes: SegmentationClass[], width: number, height: number): Uint8Array<ArrayBuffer> {
+  const maxId = mask.data.reduce((max, id) => Math.max(max, id), 0)
+  const palette = new Uint8Array((maxId + 1) * 3)
+  for (let id = 1; id <= maxId; id++) palette.set([128, 128, 128], id * 3)
+  classes.forEach((cls) => {
+    if (cls.id <= maxId) palette.set(hexToRgb(cls.color), cls.id * 3)
+  })
+
+  // Each row starts with filter type 0 (none)
+  const raw = new Uint8Array((width + 1) * height)
+  const columns = Array.from({ length: width }, (_, x) => Math.min(mask.width - 1, Math.floor((x * mask.width) / width)))
+  for (let y = 0; y < height; y++) {
+    const row = Math.min(mask.height - 1, Math.floor((y * mask.height) / height)) * mask.width
+    const offset = y * (width + 1) + 1
+    for (let x = 0; x < width; x++) raw[offset + x] = mask.data[row + columns[x]]
+  }
+
+  const header = new Uint8Array(13)
+  const view = new DataView(header.buffer)
+  view.setUint32(0, width)
+  view.setUint32(4, height)
+  header.set([8, 3, 0, 0, 0], 8) // bit depth 8, colour type 3 (palette)
+
+  const parts = [
+    new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk("IHDR", header),
+    pngChunk("PLTE", palette),
+    pngChunk("IDAT", zlibSync(raw)),
+    pngChunk("IEND", new Uint8Array(0)),
+  ]
+  const png = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0))
+  parts.reduce((offset, part) => {
+    png.set(part, offset)
+    return offset + part.length
+  }, 0)
+  return png
+}
+
+// Edge directions, clockwise on screen (y down): east, south, west, north
+const STEPS: [number, number][] = [[1, 0], [0, 1], [-1, 0], [0, -1]]
+
+function signedArea(ring: Ring): number {
+  let sum = 0
+  for (let i = 0; i < ring.length; i++) {
+    const [x1, y1] = ring[i]
+    const [x2, y2] = ring[(i + 1) % ring.length]
+    sum += x1 * y2 - x2 * y1
+  }
+  return sum / 2
+}
+
+function contains(ring: Ring, x: number, y: number): boolean {
+  let inside = false
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i]
+    const [xj, yj] = ring[j]
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) inside = !inside
+  }
+  return inside
+}
+
+/**
+ * Traces the pixel-edge boundaries of one class into closed rings, in mask
+ * pixels. Edges keep the class on their right, so outer boundaries come out
+ * clockwise on screen (positive area) and holes anticlockwise.
+ */
+function traceRings(mask: SegmentationMask, classId: number): Ring[] {
+  const { width, height, data } = mask
+  const stride = width + 1
+  const outgoing = new Map<number, number[]>()
+  const addEdge = (x: number, y: number, direction: number) => {
+    const key = y * stride + x
+    const list = outgoing.get(key)
+    if (list) list.push(direction)
+    else outgoing.set(key, [direction])
+  }
+  const isClass = (x: number, y: number) => x >= 0 && y >= 0 && x < width && y < height && data[y * width + x] === classId
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (data[y * width + x] !== classId) continue
+      if (!isClass(x, y - 1)) addEdge(x, y, 0)
+      if (!isClass(x + 1, y)) addEdge(x + 1, y, 1)
+      if (!isClass(x, y + 1)) addEdge(x + 1, y + 1, 2)
+      if (!isClass(x - 1, y)) addEdge(x, y + 1, 3)
+    }
+  }
+
+  const rings: Ring[] = []
+  for (const [startKey, list] of outgoing) {
+    while (list.length > 0) {
+      const ring: Ring = []
+      const first = list.pop()!
+      let key = startKey
+      let direction = first
+      let previous = -1
+      for (;;) {
+        const x = key % stride
+        const y = (key - x) / stride
+        // Only corners are kept; straight runs collapse to their end points
+        if (direction !== previous) ring.push([x, y])
+        previous = direction
+        key = (y + STEPS[direction][1]) * stride + x + STEPS[direction][0]
+        if (key === startKey) break
+        const next = outgoing.get(key)
+        if (!next || next.length === 0) break
+        // Prefer turning right, then straight, then left, so diagonal touches split into separate rings
+        const choice = [(direction + 1) % 4, direction, (direction + 3) % 4].find((d) => next.includes(d)) ?? next[0]
+        next.splice(next.indexOf(choice), 1)
+        direction = choice
+      }
+      if (direction === first) ring.shift()
+      if (ring.length >= 4) rings.push(ring)
+    }
+  }
+  return rings
+}
+
+/**
+ * Vectorises every class of the mask into polygons with holes, scaled to the
+ * original image. Background (class 0) is skipped.
+ */
+export function vectorizeMask(mask: SegmentationMask, classes: SegmentationClass[], imageWidth: number, imageHeight: number): ClassPolygon[] {
+  const sx = imageWidth / mask.width
+  const sy = imageHeight / mask.height
+  const polygons: ClassPolygon[] = []
+
+  classes.forEach((cls) => {
+    const rings = traceRings(mask, cls.id)
+    const outers = rings.filter((ring) => signedArea(ring) > 0).map((ring) => ({ ring, area: signedArea(ring), holes: [] as Ring[] }))
+    rings
+      .filter((ring) => signedArea(ring) < 0)
+      .forEach((hole) => {
+        // A point just inside the class, next to the hole's first edge
+        const [x0, y0] = hole[0]
+        const [x1, y1] = hole[1]
+        const dx = Math.sign(x1 - x0)
+        const dy = Math.sign(y1 - y0)
+        const px = x0 + dx * 0.5 - dy * 0.25
+        const py = y0 + dy * 0.5 + dx * 0.25
+        const owner = outers
+          .filter((outer) => contains(outer.ring, px, py))
+          .sort((a, b) => a.area - b.area)[0]
+        owner?.holes.push(hole)
+      })
+
+    outers.forEach(({ ring, area, holes }) => {
+      const holeArea = holes.reduce((sum, hole) => sum - signedArea(hole), 0)
+      polygons.push({
+        classId: cls.id,
+        name: cls.name,
+        color: cls.color,
+        rings: [ring, ...holes].map((r) => r.map(([x, y]) => [x * sx, y * sy] as [number, number])),
+        area: (area - holeArea) * sx * sy,
+      })
+    })
+  })
+  return polygons
+}
+
+function closeRing(ring: Ring): Ring {
+  return [...ring, ring[0]]
+}
+
+/** Plain GeoJSON in image pixel coordinates, one feature per region. */
+export function toGeoJson(polygons: ClassPolygon[]) {
+  return {
+    type: "FeatureCollection",
+    features: polygons.map((polygon, index) => ({
+      type: "Feature",
+      id: index + 1,
+      geometry: { type: "Polygon", coordinates: polygon.rings.map(closeRing) },
+      properties: {
+        species: polygon.name,
+        class_id: polygon.classId,
+        color: polygon.color,
+        area_px: Math.round(polygon.area),
+      },
+    })),
+  }
+}
+
+/** GeoJSON with QuPath's annotation properties, for File › Import objects. */
+export function toQuPathGeoJson(polygons: ClassPolygon[]) {
+  return {
+    type: "FeatureCollection",
+    features: polygons.map((polygon) => ({
+      type: "Feature",
+      geometry: { type: "Polygon", coordinates: polygon.rings.map(closeRing) },
+      properties: {
+        objectType: "annotation",
+        classification: { name: polygon.name, color: hexToRgb(polygon.color) },
+        isLocked: false,
+      },
+    })),
+  }
+}
+
+function stem(filename: string): string {
+  const dot = filename.lastIndexOf(".")
+  return dot > 0 ? filename.slice(0, dot) : filename
+}
+
+function dataUriToBytes(dataUri: string): Uint8Array {
+  return Uint8Array.from(atob(dataUri.slice(dataUri.indexOf(",") + 1)), (c) => c.charCodeAt(0))
+}
+
+export interface MaskExportInput {
+  /** Original image */
+  file: Blob
+  filename: string
+  response: CategorizeImageResponse
+  mask: SegmentationMask
+  classes: SegmentationClass[]
+  /** JPEG data URI of the original with the mask drawn over it */
+  overlay: () => Promise<string>
+}
+
+/**
+ * Builds one export file. `zip` bundles the original image, the composited
+ * overlay, the indexed mask, both GeoJSON flavours and a class table.
+ */
+export async function buildMaskExport(input: MaskExportInput, format: MaskExportFormat): Promise<{ blob: Blob; filename: string }> {
+  const { file, filename, response, mask, classes } = input
+  const width = response.image_info?.width ?? mask.width
+  const height = response.image_info?.height ?? mask.height
+  const base = stem(filename)
+
+  if (format === "png") {
+    return { blob: new Blob([encodeIndexedPng(mask, classes, width, height)], { type: "image/png" }), filename: `${base}-mask.png` }
+  }
+  const polygons = vectorizeMask(mask, classes, width, height)
+  if (format === "geojson") {
+    return { blob: new Blob([JSON.stringify(toGeoJson(polygons))], { type: "application/geo+json" }), filename: `${base}.geojson` }
+  }
+  if (format === "qupath") {
+    return { blob: new Blob([JSON.stringify(toQuPathGeoJson(polygons))], { type: "application/geo+json" }), filename: `${base}-qupath.geojson` }
+  }
+
+  const files: Zippable = {
+    [filename]: new Uint8Array(await file.arrayBuffer()),
+    [`${base}-overlay.jpg`]: dataUriToBytes(await input.overlay()),
+    [`${base}-mask.png`]: encodeIndexedPng(mask, classes, width, height),
+    [`${base}.geojson`]: strToU8(JSON.stringify(toGeoJson(polygons), null, 2)),
+    [`${base}-qupath.geojson`]: strToU8(JSON.stringify(toQuPathGeoJson(polygons), null, 2)),
+    "classes.csv": strToU8(["class_id,name,color", "0,Background,#000000", ...classes.map((cls) => `${cls.id},"${cls.name}",${cls.color}`)].join("\n")),
+  }
+  // Images are already compressed; storing them avoids a slow, pointless deflate pass
+  const zipped = zipSync(files, { level: 0 })
+  return { blob: new Blob([zipped], { type: "application/zip" }), filename: `${base}-segmentation.zip` }
+}
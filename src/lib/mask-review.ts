@@ -0,0 +1,123 @@
+import { decodeMask, encodeMask, type CategorizeImageResponse, type ClassStatistics, type SegmentationMask } from "@/lib/segmentation"
+
+export type MaskTool = "brush" | "eraser" | "fill"
+
+/** The eraser paints pixels back to background */
+export const BACKGROUND_CLASS_ID = 0
+
+export interface MaskReview {
+  reviewed_at: string
+  /** Edited class ids, same size as the model mask */
+  mask: SegmentationMask
+}
+
+/** Copy of `mask` that can be edited without touching the model output. */
+export function cloneMask(mask: SegmentationMask): SegmentationMask {
+  return { ...mask, data: mask.data.slice() }
+}
+
+/**
+ * Paints a round brush along the segment `from`–`to` (mask pixels) into
+ * `data` in place, so a stroke can be drawn live on a draft copy. Returns
+ * whether any pixel changed.
+ */
+export function paintStroke(
+  mask: SegmentationMask,
+  data: Uint8Array,
+  from: [number, number],
+  to: [number, number],
+  radius: number,
+  classId: number,
+): boolean {
+  const { width, height } = mask
+  const r = Math.max(0.5, radius)
+  const steps = Math.max(1, Math.ceil(Math.hypot(to[0] - from[0], to[1] - from[1]) / Math.max(1, r / 2)))
+  let changed = false
+  for (let step = 0; step <= steps; step++) {
+    const cx = from[0] + ((to[0] - from[0]) * step) / steps
+    const cy = from[1] + ((to[1] - from[1]) * step) / steps
+    const x0 = Math.max(0, Math.floor(cx - r))
+    const x1 = Math.min(width - 1, Math.ceil(cx + r))
+    const y0 = Math.max(0, Math.floor(cy - r))
+    const y1 = Math.min(height - 1, Math.ceil(cy + r))
+    for (let y = y0; y <= y1; y++) {
+      for (let x = x0; x <= x1; x++) {
+        // Distance from the pixel centre
+        if ((x + 0.5 - cx) ** 2 + (y + 0.5 - cy) ** 2 > r * r) continue
+        const i = y * width + x
+        if (data[i] === classId) continue
+        data[i] = classId
+        changed = true
+      }
+    }
+  }
+  return changed
+}
+
+/**
+ * Relabels the 4-connected region of the class under `(x, y)` to `classId`.
+ * Returns a new mask, or `null` when the region already has that class.
+ */
+export function floodFill(mask: SegmentationMask, x: number, y: number, classId: number): SegmentationMask | null {
+  const { width, height } = mask
+  const start = Math.floor(y) * width + Math.floor(x)
+  const target = mask.data[start]
+  if (target === undefined || target === classId) return null
+
+  const next = cloneMask(mask)
+  const stack = [start]
+  next.data[start] = classId
+  while (stack.length > 0) {
+    const i = stack.pop()!
+    const px = i % width
+    const neighbours = [px > 0 ? i - 1 : -1, px < width - 1 ? i + 1 : -1, i - width, i + width]
+    for (const n of neighbours) {
+      if (n < 0 || n >= width * height || next.data[n] !== target) continue
+      next.data[n] = classId
+      stack.push(n)
+    }
+  }
+  return next
+}
+
+/**
+ * Rebuilds `segmentation_results` from the reviewed mask. Pixel counts and
+ * percentages come from the edit; confidences stay the model's, since painted
+ * pixels have none. The dominant class is the species with most pixels, or
+ * background when none is left.
+ */
+export function toReviewedSegmentation(raw: CategorizeImageResponse, review: MaskReview): CategorizeImageResponse {
+  const { mask } = review
+  const counts = new Map<number, number>()
+  mask.data.forEach((id) => counts.set(id, (counts.get(id) ?? 0) + 1))
+
+  const original = decodeMask(raw)
+  let changedPixels = 0
+  if (original) mask.data.forEach((id, i) => { if (id !== original.data[i]) changedPixels++ })
+
+  // Counts are reported at the original image size, like the model statistics
+  const areaFactor = raw.image_info ? (raw.image_info.width * raw.image_info.height) / mask.data.length : 1
+  const classStatistics: Record<string, ClassStatistics> = Object.fromEntries(
+    Object.entries(raw.segmentation_results.class_statistics).map(([name, stats]) => {
+      const count = counts.get(stats.class_id) ?? 0
+      return [name, { ...stats, pixel_count: Math.round(count * areaFactor), percentage: (count / mask.data.length) * 100 }]
+    })
+  )
+
+  const ranked = Object.entries(classStatistics).sort((a, b) => b[1].pixel_count - a[1].pixel_count)
+  const dominant = ranked.find(([, stats]) => stats.class_id !== BACKGROUND_CLASS_ID && stats.pixel_count > 0)
+    ?? ranked.find(([, stats]) => stats.class_id === BACKGROUND_CLASS_ID)
+
+  return {
+    ...raw,
+    mask: encodeMask(mask),
+    segmentation_results: {
+      ...raw.segmentation_results,
+      class_statistics: classStatistics,
+      dominant_class: dominant?.[0] ?? "Background",
+      dominant_confidence: dominant?.[1].avg_confidence ?? 0,
+      dominant_percentage: dominant?.[1].percentage ?? 0,
+    },
+    maskReview: { reviewed_at: review.reviewed_at, changed_pixels: Math.round(changedPixels * areaFactor) },
+  }
+}
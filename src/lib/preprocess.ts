@@ -0,0 +1,143 @@
+import { createCanvas } from "@/lib/canvas"
+import type { Detection, DetectionResponse } from "@/lib/detection"
+
+export const ACCEPTED_IMAGE_TYPES = ["image/jpeg", "image/png"]
+export const MAX_UPLOAD_BYTES = 10 * 1024 * 1024
+
+/** Longest side an image is resampled to before upload; `null` keeps the original size */
+export type MaxDimension = number | null
+
+export const MAX_DIMENSION_OPTIONS: MaxDimension[] = [1024, 2048, 4096, null]
+export const DEFAULT_MAX_DIMENSION: MaxDimension = 4096
+
+export interface PreparedImage {
+  /** What gets uploaded: the original file, or a re-encoded copy when rotated or resampled */
+  blob: Blob
+  filename: string
+  /** Size of the original image, after EXIF orientation */
+  width: number
+  height: number
+  /** Uploaded size ÷ original size; 1 when the image was not resampled */
+  scale: number
+  /** EXIF orientation tag (1–8) found in the file; 1 when absent */
+  orientation: number
+}
+
+/**
+ * Returns a user-facing reason `file` can't be uploaded, or `null` when it is
+ * fine. The 10 MB limit applies to what is actually sent, so pass
+ * `checkSize: false` when the image will be resampled or tiled first;
+ * `checkUploadSize` then covers the upload itself.
+ */
+export function validateImageFile(file: File, checkSize = true): string | null {
+  if (!ACCEPTED_IMAGE_TYPES.includes(file.type)) {
+    return `${file.name}: unsupported file type${file.type ? ` (${file.type})` : ""}. Use JPG, PNG, TIFF or HEIC.`
+  }
+  if (checkSize && file.size > MAX_UPLOAD_BYTES) {
+    return `${file.name}: ${(file.size / 1024 / 1024).toFixed(1)} MB exceeds the 10 MB limit.`
+  }
+  if (file.size === 0) {
+    return `${file.name}: file is empty.`
+  }
+  return null
+}
+
+/** Throws when an upload (a resampled image, a normalized copy or one tile) is over the API's 10 MB limit. */
+export function checkUploadSize(image: Blob, filename = "image") {
+  if (image.size > MAX_UPLOAD_BYTES) {
+    throw new Error(`${filename}: upload is ${(image.size / 1024 / 1024).toFixed(1)} MB, over the 10 MB limit. Choose a smaller max dimension or turn on tiling.`)
+  }
+}
+
+/**
+ * Reads the EXIF orientation tag from a JPEG's APP1 segment. Only the first
+ * 128 KB are read; the tag always sits in the header.
+ */
+async function readExifOrientation(file: Blob): Promise<number> {
+  const view = new DataView(await file.slice(0, 128 * 1024).arrayBuffer())
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return 1
+
+  let offset = 2
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset)
+    const length = view.getUint16(offset + 2)
+    // Start of scan: image data follows, no more metadata
+    if (marker === 0xffda) break
+    if (marker === 0xffe1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) {
+      const tiff = offset + 10
+      const little = view.getUint16(tiff) === 0x4949
+      const ifd = tiff + view.getUint32(tiff + 4, little)
+      if (ifd + 2 > view.byteLength) return 1
+      const entries = view.getUint16(ifd, little)
+      for (let i = 0; i < entries; i++) {
+        const entry = ifd + 2 + i * 12
+        if (entry + 10 > view.byteLength) return 1
+        if (view.getUint16(entry, little) === 0x0112) {
+          const value = view.getUint16(entry + 8, little)
+          return value >= 1 && value <= 8 ? value : 1
+        }
+      }
+      return 1
+    }
+    offset += 2 + length
+  }
+  return 1
+}
+
+/**
+ * Shared pre-upload step for the detection and segmentation pages: rejects
+ * unsupported or corrupt files, bakes the EXIF rotation of phone-camera
+ * microscope adapters into the pixels and resamples images larger than
+ * `maxDimension`. The original file is passed through untouched when neither
+ * is needed. The size limit is left to the request, which sees the final blob.
+ */
+export async function prepareImage(file: File, maxDimension: MaxDimension): Promise<PreparedImage> {
+  const invalid = validateImageFile(file, false)
+  if (invalid) throw new Error(invalid)
+
+  const orientation = file.type === "image/jpeg" ? await readExifOrientation(file) : 1
+  let bitmap: ImageBitmap
+  try {
+    bitmap = await createImageBitmap(file, { imageOrientation: "from-image" })
+  } catch {
+    throw new Error(`${file.name}: could not be decoded. The file may be corrupt.`)
+  }
+
+  try {
+    const { width, height } = bitmap
+    const scale = maxDimension ? Math.min(1, maxDimension / Math.max(width, height)) : 1
+    if (scale === 1 && orientation === 1) {
+      return { blob: file, filename: file.name, width, height, scale, orientation }
+    }
+
+    const [canvas, ctx] = createCanvas(Math.round(width * scale), Math.round(height * scale))
+    ctx.imageSmoothingQuality = "high"
+    ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height)
+    const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, file.type, 0.95))
+    if (!blob) throw new Error(`${file.name}: could not be re-encoded`)
+    return { blob, filename: file.name, width, height, scale: canvas.width / width, orientation }
+  } finally {
+    bitmap.close()
+  }
+}
+
+/**
+ * Maps a detection response for a resampled upload back to the original
+ * image: boxes and `image_info` are divided by the scale factor, which is
+ * recorded under `preprocessing` together with the EXIF orientation.
+ */
+export function toOriginalCoordinates(response: DetectionResponse, prepared: PreparedImage): DetectionResponse {
+  const sx = prepared.width / response.image_info.width
+  const sy = prepared.height / response.image_info.height
+  const mapBox = (bbox: Detection["bbox"]) => ({ x1: bbox.x1 * sx, y1: bbox.y1 * sy, x2: bbox.x2 * sx, y2: bbox.y2 * sy })
+  return {
+    ...response,
+    image_info: { ...response.image_info, width: prepared.width, height: prepared.height, filename: prepared.filename },
+    detections: sx === 1 && sy === 1
+      ? response.detections
+      : response.detections.map((detection) => ({ ...detection, bbox: mapBox(detection.bbox) })),
+    ...(prepared.scale < 1 || prepared.orientation !== 1
+      ? { preprocessing: { scale: prepared.scale, orientation: prepared.orientation } }
+      : {}),
+  }
+}
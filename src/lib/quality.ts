@@ -0,0 +1,187 @@
+import { createCanvas } from "@/lib/canvas"
+
+export type QualityStatus = "pass" | "warn" | "fail"
+
+export interface QualityCheck {
+  id: "focus" | "overexposure" | "underexposure" | "stain" | "colorCast"
+  label: string
+  /** Measured value, in the unit the thresholds use */
+  value: number
+  status: QualityStatus
+  message: string
+}
+
+export interface QualityReport {
+  status: QualityStatus
+  /** Variance of the Laplacian on the luminance channel; higher is sharper */
+  focus: number
+  /** Share of pixels clipped white / black */
+  overexposed: number
+  underexposed: number
+  /** Mean HSV saturation, 0–1; near 0 means an unstained or washed-out smear */
+  saturation: number
+  /** Spread of the mean R, G and B relative to their average; high means a strong colour cast */
+  colorCast: number
+  checks: QualityCheck[]
+  /** Set when the user analysed the image despite a failing check */
+  overridden?: boolean
+  assessedAt: string
+}
+
+/** Thrown by callers that refuse to analyse an image failing the gate; carries the report for the UI */
+export class QualityGateError extends Error {
+  constructor(public report: QualityReport) {
+    super(`Quality check failed: ${report.checks.filter((check) => check.status === "fail").map((check) => check.message).join("; ")}`)
+    this.name = "QualityGateError"
+  }
+}
+
+// Images are measured at this longest side so scores are comparable across cameras
+const ANALYSIS_DIMENSION = 1024
+// Luminance at or beyond these counts as clipped
+const CLIP_HIGH = 254
+const CLIP_LOW = 1
+
+// Heuristic [warn, fail] thresholds; tune against local images rather than treat as calibrated
+const FOCUS_LIMITS: [number, number] = [40, 15]
+const OVEREXPOSED_LIMITS: [number, number] = [0.1, 0.35]
+const UNDEREXPOSED_LIMITS: [number, number] = [0.1, 0.35]
+const SATURATION_LIMITS: [number, number] = [0.08, 0.04]
+const COLOR_CAST_WARN = 0.35
+
+const STATUS_RANK: Record<QualityStatus, number> = { pass: 0, warn: 1, fail: 2 }
+
+function grade(value: number, [warn, fail]: [number, number], higherIsBetter: boolean): QualityStatus {
+  if (higherIsBetter) return value < fail ? "fail" : value < warn ? "warn" : "pass"
+  return value > fail ? "fail" : value > warn ? "warn" : "pass"
+}
+
+function percent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`
+}
+
+/**
+ * Scores an image before it is sent for analysis: focus (variance of the
+ * Laplacian), exposure clipping and stain balance (saturation and colour
+ * cast). The overall status is the worst of the individual checks.
+ */
+export async function assessQuality(image: Blob): Promise<QualityReport> {
+  const bitmap = await createImageBitmap(image)
+  const scale = Math.min(1, ANALYSIS_DIMENSION / Math.max(bitmap.width, bitmap.height))
+  const width = Math.max(1, Math.round(bitmap.width * scale))
+  const height = Math.max(1, Math.round(bitmap.height * scale))
+  const [, ctx] = createCanvas(width, height)
+  ctx.drawImage(bitmap, 0, 0, width, height)
+  bitmap.close()
+  const { data } = ctx.getImageData(0, 0, width, height)
+
+  const pixels = width * height
+  const luma = new Float32Array(pixels)
+  let over = 0
+  let under = 0
+  let saturationSum = 0
+  let rSum = 0
+  let gSum = 0
+  let bSum = 0
+  for (let i = 0; i < pixels; i++) {
+    const r = data[i * 4]
+    const g = data[i * 4 + 1]
+    const b = data[i * 4 + 2]
+    const y = 0.299 * r + 0.587 * g + 0.114 * b
+    luma[i] = y
+    if (y >= CLIP_HIGH) over++
+    if (y <= CLIP_LOW) under++
+    const max = Math.max(r, g, b)
+    saturationSum += max > 0 ? (max - Math.min(r, g, b)) / max : 0
+    rSum += r
+    gSum += g
+    bSum += b
+  }
+
+  // 4-neighbour Laplacian over the interior
+  let lapSum = 0
+  let lapSqSum = 0
+  let count = 0
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x
+      const lap = luma[i - 1] + luma[i + 1] + luma[i - width] + luma[i + width] - 4 * luma[i]
+      lapSum += lap
+      lapSqSum += lap * lap
+      count++
+    }
+  }
+  const focus = count > 0 ? lapSqSum / count - (lapSum / count) ** 2 : 0
+
+  const overexposed = over / pixels
+  const underexposed = under / pixels
+  const saturation = saturationSum / pixels
+  const means = [rSum / pixels, gSum / pixels, bSum / pixels]
+  const meanLevel = (means[0] + means[1] + means[2]) / 3
+  const colorCast = meanLevel > 0 ? (Math.max(...means) - Math.min(...means)) / meanLevel : 0
+
+  const checks: QualityCheck[] = [
+    {
+      id: "focus",
+      label: "Focus",
+      value: focus,
+      status: grade(focus, FOCUS_LIMITS, true),
+      message: `focus score ${focus.toFixed(0)} (blurry below ${FOCUS_LIMITS[0]})`,
+    },
+    {
+      id: "overexposure",
+      label: "Over-exposure",
+      value: overexposed,
+      status: grade(overexposed, OVEREXPOSED_LIMITS, false),
+      message: `${percent(overexposed)} of pixels clipped white`,
+    },
+    {
+      id: "underexposure",
+      label: "Under-exposure",
+      value: underexposed,
+      status: grade(underexposed, UNDEREXPOSED_LIMITS, false),
+      message: `${percent(underexposed)} of pixels clipped black`,
+    },
+    {
+      id: "stain",
+      label: "Stain",
+      value: saturation,
+      status: grade(saturation, SATURATION_LIMITS, true),
+      message: `mean saturation ${percent(saturation)} (faint or unstained below ${percent(SATURATION_LIMITS[0])})`,
+    },
+    {
+      id: "colorCast",
+      label: "Colour balance",
+      value: colorCast,
+      status: colorCast > COLOR_CAST_WARN ? "warn" : "pass",
+      message: `channel spread ${percent(colorCast)} (strong colour cast above ${percent(COLOR_CAST_WARN)})`,
+    },
+  ]
+  const status = checks.reduce<QualityStatus>(
+    (worst, check) => (STATUS_RANK[check.status] > STATUS_RANK[worst] ? check.status : worst),
+    "pass"
+  )
+
+  return {
+    status,
+    focus,
+    overexposed,
+    underexposed,
+    saturation,
+    colorCast,
+    checks,
+    assessedAt: new Date().toISOString(),
+  }
+}
+
+/**
+ * Runs the gate for an upload: resolves with the report to store next to the
+ * result, or throws `QualityGateError` for a failing image unless the user
+ * chose to override.
+ */
+export async function checkQuality(image: Blob, override: boolean): Promise<QualityReport> {
+  const report = await assessQuality(image)
+  if (report.status !== "fail") return report
+  if (!override) throw new QualityGateError(report)
+  return { ...report, overridden: true }
+}
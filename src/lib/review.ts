@@ -0,0 +1,105 @@
+import type { Detection, DetectionResponse } from "@/lib/detection"
+
+export type ReviewDecision = "pending" | "accepted" | "rejected"
+
+export interface ReviewBox extends Detection {
+  decision: ReviewDecision
+  /** "model" boxes come from YOLO, "manual" boxes were drawn by the reviewer */
+  source: "model" | "manual"
+}
+
+export interface ReviewedResult {
+  reviewed_at: string
+  /** Threshold the model detections were taken at when the review started */
+  confidence_threshold: number
+  boxes: ReviewBox[]
+}
+
+export interface ReviewSummary {
+  aiCount: number
+  finalCount: number
+  accepted: number
+  rejected: number
+  added: number
+  pending: number
+}
+
+// Only used for hand-drawn boxes when the model has not labelled anything yet to take the name from
+const FALLBACK_MANUAL_CLASS = "microfilaria"
+
+/**
+ * Class name for boxes the reviewer draws by hand: the model's most frequent
+ * label across `responses`, so added boxes join the model's class in counts
+ * and exports rather than forming one of their own.
+ */
+export function manualDetectionClass(responses: DetectionResponse[]): string {
+  const counts = new Map<string, number>()
+  responses.forEach((response) => response.detections.forEach((detection) => {
+    counts.set(detection.class, (counts.get(detection.class) ?? 0) + 1)
+  }))
+  let best = FALLBACK_MANUAL_CLASS
+  let bestCount = 0
+  counts.forEach((count, name) => {
+    if (count > bestCount) {
+      best = name
+      bestCount = count
+    }
+  })
+  return best
+}
+
+/** Seeds a review from the detections currently shown for a result. */
+export function startReview(response: DetectionResponse): ReviewedResult {
+  return {
+    reviewed_at: new Date().toISOString(),
+    confidence_threshold: response.detection_stats.confidence_threshold,
+    boxes: response.detections.map((detection) => ({ ...detection, decision: "pending", source: "model" })),
+  }
+}
+
+export function nextBoxId(boxes: ReviewBox[]): number {
+  return boxes.reduce((max, box) => Math.max(max, box.id), 0) + 1
+}
+
+/**
+ * Counts for the AI vs. reviewer comparison. Pending boxes keep the model's
+ * call, so the final count is the model count minus rejected boxes plus
+ * manually added ones and does not drop when a review is started.
+ */
+export function summarizeReview(review: ReviewedResult): ReviewSummary {
+  const model = review.boxes.filter((box) => box.source === "model")
+  const rejected = model.filter((box) => box.decision === "rejected").length
+  const added = review.boxes.length - model.length
+  return {
+    aiCount: model.length,
+    finalCount: model.length - rejected + added,
+    accepted: model.filter((box) => box.decision === "accepted").length,
+    rejected,
+    added,
+    pending: model.filter((box) => box.decision === "pending").length,
+  }
+}
+
+/**
+ * Builds a `DetectionResponse`-shaped result from the reviewed boxes so that
+ * anything consuming detections can use the corrected set instead of the raw one.
+ * Like the final count, it keeps every box that was not rejected.
+ */
+export function toReviewedResponse(raw: DetectionResponse, review: ReviewedResult): DetectionResponse {
+  const kept = review.boxes.filter((box) => box.decision !== "rejected")
+  const detections = kept.map<Detection>(({ id, class: className, confidence, bbox }) => ({ id, class: className, confidence, bbox }))
+  // Manual boxes carry a nominal confidence of 1 and would inflate the model average
+  const modelBoxes = kept.filter((box) => box.source === "model")
+  return {
+    ...raw,
+    timestamp: review.reviewed_at,
+    detections,
+    detection_stats: {
+      total_count: detections.length,
+      average_confidence: modelBoxes.length > 0
+        ? modelBoxes.reduce((sum, box) => sum + box.confidence, 0) / modelBoxes.length
+        : 0,
+      confidence_threshold: review.confidence_threshold,
+    },
+  }
+}
@@ -0,0 +1,218 @@
+import { createCanvas, loadImage } from "@/lib/canvas"
+import { checkUploadSize } from "@/lib/preprocess"
+import type { QualityReport } from "@/lib/quality"
+
+// 40x UNET / Categorize API response types (snake_case from API)
+export interface ClassStatistics {
+  class_id: number
+  avg_confidence: number
+  max_confidence: number
+  min_confidence: number
+  percentage: number
+  pixel_count: number
+}
+
+export interface SegmentationResults {
+  class_statistics: Record<string, ClassStatistics>
+  dominant_class: string
+  dominant_confidence: number
+  dominant_percentage: number
+  overall_confidence: number
+}
+
+export interface CategorizeImageResponse {
+  success: boolean
+  timestamp: string
+  image_info?: {
+    width: number
+    height: number
+    filename: string
+    format: string
+  }
+  class_legend?: Record<string, string>
+  overlay_image: string  // data URI e.g. "data:image/jpeg;base64,..."
+  overlay_path?: string
+  segmentation_results: SegmentationResults
+  /** Base64 of one class id byte per pixel, row-major; only sent when `return_mask` is requested */
+  mask?: string
+  /** `[height, width]` of `mask` */
+  mask_shape?: number[]
+  /** Set client-side when the upload was rotated or resampled first */
+  preprocessing?: {
+    scale: number
+    orientation: number
+  }
+  /** Set client-side from the pre-upload quality check */
+  quality?: QualityReport
+  /** Set client-side when colours were normalized to a reference slide */
+  stainNormalization?: {
+    method: "reinhard"
+    reference: string
+  }
+  /** Set client-side when a reviewer edited the mask; statistics are then recomputed from it */
+  maskReview?: {
+    reviewed_at: string
+    changed_pixels: number
+  }
+}
+
+/** Class ids per pixel, at the model's output resolution */
+export interface SegmentationMask {
+  width: number
+  height: number
+  data: Uint8Array
+}
+
+/** One mask layer: a class present in the response, with its display colour */
+export interface SegmentationClass {
+  id: number
+  name: string
+  color: string
+}
+
+export interface MaskLayerSettings {
+  /** Class ids switched off */
+  hidden: number[]
+  /** 0–1 */
+  opacity: number
+  /** Draw class boundaries only instead of filled regions */
+  outline: boolean
+}
+
+export const DEFAULT_MASK_LAYERS: MaskLayerSettings = { hidden: [], opacity: 0.5, outline: false }
+
+// Used when `class_legend` names no colour we recognise; indexed by class id
+const CLASS_PALETTE = ["#6b7280", "#22c55e", "#ef4444", "#eab308", "#3b82f6", "#a855f7", "#06b6d4", "#f97316", "#ec4899"]
+
+const LEGEND_COLORS: [string, string][] = [
+  ["blue", "#3b82f6"],
+  ["red", "#ef4444"],
+  ["yellow", "#eab308"],
+  ["green", "#22c55e"],
+  ["orange", "#f97316"],
+]
+
+/** Hex colour for a `class_legend` colour name such as "Blue", or `null` when unknown. */
+export function legendColorFromName(name: string): string | null {
+  const n = name.toLowerCase()
+  return LEGEND_COLORS.find(([key]) => n.includes(key))?.[1] ?? null
+}
+
+/** Display colour of a class: its legend colour when recognised, else a fixed colour per class id. */
+export function classColor(name: string, classId: number | undefined, legend: Record<string, string> = {}): string {
+  const fromLegend = legend[name] ? legendColorFromName(legend[name]) : null
+  if (fromLegend) return fromLegend
+  return classId === undefined ? CLASS_PALETTE[0] : CLASS_PALETTE[classId % CLASS_PALETTE.length]
+}
+
+/** Mask layers for the classes in a response; the background class (id 0) is left transparent. */
+export function segmentationClasses(response: CategorizeImageResponse): SegmentationClass[] {
+  return Object.entries(response.segmentation_results.class_statistics)
+    .filter(([, stats]) => stats.class_id !== 0)
+    .map(([name, stats]) => ({ id: stats.class_id, name, color: classColor(name, stats.class_id, response.class_legend) }))
+    .sort((a, b) => a.id - b.id)
+}
+
+/** Decodes `mask` / `mask_shape`; `null` when either is missing or they disagree. */
+export function decodeMask(response: CategorizeImageResponse): SegmentationMask | null {
+  if (!response.mask || response.mask_shape?.length !== 2) return null
+  const [height, width] = response.mask_shape
+  const data = Uint8Array.from(atob(response.mask), (c) => c.charCodeAt(0))
+  return data.length === width * height ? { width, height, data } : null
+}
+
+/** Inverse of `decodeMask`: base64 of the class id bytes. */
+export function encodeMask(mask: SegmentationMask): string {
+  let binary = ""
+  // Chunked so the argument list stays well below engine limits
+  for (let i = 0; i < mask.data.length; i += 0x8000) {
+    binary += String.fromCharCode(...mask.data.subarray(i, i + 0x8000))
+  }
+  return btoa(binary)
+}
+
+function hexToRgb(hex: string): [number, number, number] {
+  const value = parseInt(hex.slice(1), 16)
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255]
+}
+
+/**
+ * Paints the visible classes of `mask` at its own resolution, fully opaque;
+ * callers apply `settings.opacity` when compositing. In outline mode only
+ * pixels whose 4-neighbourhood contains another class are drawn.
+ */
+export function renderMaskLayer(mask: SegmentationMask, classes: SegmentationClass[], settings: MaskLayerSettings): HTMLCanvasElement {
+  const { width, height, data } = mask
+  const colors = new Map(
+    classes.filter((cls) => !settings.hidden.includes(cls.id)).map((cls) => [cls.id, hexToRgb(cls.color)])
+  )
+  const [canvas, ctx] = createCanvas(width, height)
+  const imageData = ctx.createImageData(width, height)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x
+      const rgb = colors.get(data[i])
+      if (!rgb) continue
+      if (settings.outline) {
+        const id = data[i]
+        const interior = (x === 0 || data[i - 1] === id)
+          && (x === width - 1 || data[i + 1] === id)
+          && (y === 0 || data[i - width] === id)
+          && (y === height - 1 || data[i + width] === id)
+        if (interior) continue
+      }
+      imageData.data[i * 4] = rgb[0]
+      imageData.data[i * 4 + 1] = rgb[1]
+      imageData.data[i * 4 + 2] = rgb[2]
+      imageData.data[i * 4 + 3] = 255
+    }
+  }
+  ctx.putImageData(imageData, 0, 0)
+  return canvas
+}
+
+/** Flattens the original image and the mask layers into a JPEG data URI, for reports. */
+export async function renderSegmentationImage(
+  src: string,
+  mask: SegmentationMask,
+  classes: SegmentationClass[],
+  settings: MaskLayerSettings,
+): Promise<string> {
+  const image = await loadImage(src)
+  const [canvas, ctx] = createCanvas(image.naturalWidth, image.naturalHeight)
+  ctx.drawImage(image, 0, 0)
+  ctx.globalAlpha = settings.opacity
+  ctx.imageSmoothingEnabled = false
+  ctx.drawImage(renderMaskLayer(mask, classes, settings), 0, 0, canvas.width, canvas.height)
+  return canvas.toDataURL("image/jpeg", 0.9)
+}
+
+/**
+ * POSTs one image to `/api/categorize`, asking for the raw class mask, and
+ * resolves with the parsed response. Rejects with a user-facing message when
+ * the API is unreachable or reports a failure.
+ */
+export async function requestSegmentation(image: Blob, filename: string): Promise<CategorizeImageResponse> {
+  checkUploadSize(image, filename)
+
+  const formData = new FormData()
+  formData.append("image", image, filename)
+  formData.append("return_mask", "true")
+
+  let response: Response
+  try {
+    response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/categorize`, {
+      method: "POST",
+      body: formData,
+    })
+  } catch (err) {
+    console.error(err)
+    throw new Error("Failed to connect to API. Make sure the server is running.")
+  }
+
+  const data = await response.json()
+  if (!data.success || !(data.overlay_image || data.mask)) {
+    throw new Error(data.error || data.message || "Segmentation failed")
+  }
+  return data as CategorizeImageResponse
+}
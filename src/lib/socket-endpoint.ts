@@ -0,0 +1,55 @@
+/** Where the real-time page opens its socket.io connection */
+export interface SocketEndpoint {
+  /** Origin only, e.g. "http://localhost:5001"; the path goes in `path` */
+  url: string
+  path: string
+}
+
+const ENDPOINT_KEY = "socket-endpoint"
+
+/** From `NEXT_PUBLIC_SOCKET_URL` / `NEXT_PUBLIC_SOCKET_PATH`, falling back to the production server. */
+export const DEFAULT_SOCKET_ENDPOINT: SocketEndpoint = {
+  url: process.env.NEXT_PUBLIC_SOCKET_URL || "https://api.microfilaria.click",
+  path: process.env.NEXT_PUBLIC_SOCKET_PATH || "/microphilaria_model_api/socket.io",
+}
+
+/**
+ * Checks a user-entered endpoint and returns it tidied up, or throws with a
+ * message for the form. A path left on the URL is moved into `path`, since
+ * socket.io would read it as a namespace.
+ */
+export function parseSocketEndpoint(url: string, path: string): SocketEndpoint {
+  let parsed: URL
+  try {
+    parsed = new URL(url.trim())
+  } catch {
+    throw new Error("Enter a full URL, e.g. http://localhost:5001")
+  }
+  if (!["http:", "https:", "ws:", "wss:"].includes(parsed.protocol)) {
+    throw new Error("The URL must start with http://, https://, ws:// or wss://")
+  }
+  const urlPath = parsed.pathname.replace(/\/+$/, "")
+  const trimmedPath = path.trim().replace(/\/+$/, "")
+  return {
+    url: parsed.origin,
+    path: trimmedPath ? (trimmedPath.startsWith("/") ? trimmedPath : `/${trimmedPath}`) : `${urlPath}/socket.io`,
+  }
+}
+
+export function loadSocketEndpoint(): SocketEndpoint | null {
+  try {
+    const stored = JSON.parse(localStorage.getItem(ENDPOINT_KEY) ?? "null")
+    return typeof stored?.url === "string" && typeof stored?.path === "string" ? stored : null
+  } catch {
+    return null
+  }
+}
+
+export function saveSocketEndpoint(endpoint: SocketEndpoint | null) {
+  try {
+    if (endpoint) localStorage.setItem(ENDPOINT_KEY, JSON.stringify(endpoint))
+    else localStorage.removeItem(ENDPOINT_KEY)
+  } catch {
+    // localStorage may be blocked
+  }
+}
@@ -0,0 +1,201 @@
+import { createCanvas } from "@/lib/canvas"
+import type { PreparedImage } from "@/lib/preprocess"
+
+type Triplet = [number, number, number]
+
+/** Mean and standard deviation of the stained pixels in CIE L*a*b* */
+export interface StainStats {
+  mean: Triplet
+  std: Triplet
+}
+
+/** Reference slide the uploads are normalized to */
+export interface StainReference extends StainStats {
+  name: string
+  /** Small JPEG data URI, to show which slide is in use */
+  thumbnail: string
+  createdAt: string
+}
+
+const REFERENCE_KEY = "stain-reference"
+// Statistics are measured at this longest side, for the reference and each upload; they barely change with resolution
+const MEASURE_DIMENSION = 1024
+const THUMBNAIL_DIMENSION = 96
+// Pixels this bright are background (plasma, glass) and left out of the statistics
+const BACKGROUND_L = 90
+// Fall back to every pixel when less than this share is stained, e.g. an almost empty field
+const MIN_FOREGROUND_SHARE = 0.01
+
+// D65 white point
+const XN = 0.95047
+const ZN = 1.08883
+
+const SRGB_TO_LINEAR = Float32Array.from({ length: 256 }, (_, value) => {
+  const c = value / 255
+  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4)
+})
+
+function labForward(t: number): number {
+  return t > 0.008856 ? Math.cbrt(t) : 7.787 * t + 16 / 116
+}
+
+function labInverse(f: number): number {
+  const cube = f * f * f
+  return cube > 0.008856 ? cube : (f - 16 / 116) / 7.787
+}
+
+function linearToSrgb(c: number): number {
+  const v = c <= 0.0031308 ? 12.92 * c : 1.055 * Math.pow(c, 1 / 2.4) - 0.055
+  return Math.round(Math.min(1, Math.max(0, v)) * 255)
+}
+
+/** Converts RGBA pixels to interleaved L*a*b* */
+function toLab(data: Uint8ClampedArray): Float32Array {
+  const pixels = data.length / 4
+  const lab = new Float32Array(pixels * 3)
+  for (let i = 0; i < pixels; i++) {
+    const r = SRGB_TO_LINEAR[data[i * 4]]
+    const g = SRGB_TO_LINEAR[data[i * 4 + 1]]
+    const b = SRGB_TO_LINEAR[data[i * 4 + 2]]
+    const fx = labForward((0.4124 * r + 0.3576 * g + 0.1805 * b) / XN)
+    const fy = labForward(0.2126 * r + 0.7152 * g + 0.0722 * b)
+    const fz = labForward((0.0193 * r + 0.1192 * g + 0.9505 * b) / ZN)
+    lab[i * 3] = 116 * fy - 16
+    lab[i * 3 + 1] = 500 * (fx - fy)
+    lab[i * 3 + 2] = 200 * (fy - fz)
+  }
+  return lab
+}
+
+function labStats(lab: Float32Array): StainStats {
+  const pixels = lab.length / 3
+  const measure = (include: (l: number) => boolean) => {
+    const sum: Triplet = [0, 0, 0]
+    const sumSq: Triplet = [0, 0, 0]
+    let count = 0
+    for (let i = 0; i < pixels; i++) {
+      if (!include(lab[i * 3])) continue
+      for (let c = 0; c < 3; c++) {
+        const v = lab[i * 3 + c]
+        sum[c] += v
+        sumSq[c] += v * v
+      }
+      count++
+    }
+    return { sum, sumSq, count }
+  }
+
+  let totals = measure((l) => l < BACKGROUND_L)
+  if (totals.count < pixels * MIN_FOREGROUND_SHARE) totals = measure(() => true)
+  const { sum, sumSq, count } = totals
+  const mean = sum.map((s) => s / Math.max(1, count)) as Triplet
+  const std = sumSq.map((s, c) => Math.sqrt(Math.max(0, s / Math.max(1, count) - mean[c] * mean[c]))) as Triplet
+  return { mean, std }
+}
+
+// Pixels per row band when applying the transfer, so only a band is held as ImageData at a time
+const BAND_PIXELS = 1 << 20
+
+/** Downscaled copy of `bitmap` with its longest side at most `maxDimension`. */
+function readPixels(bitmap: ImageBitmap, maxDimension: number): [HTMLCanvasElement, ImageData] {
+  const scale = Math.min(1, maxDimension / Math.max(bitmap.width, bitmap.height))
+  const [canvas, ctx] = createCanvas(Math.max(1, Math.round(bitmap.width * scale)), Math.max(1, Math.round(bitmap.height * scale)))
+  ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height)
+  return [canvas, ctx.getImageData(0, 0, canvas.width, canvas.height)]
+}
+
+/** Measures a reference slide and keeps a thumbnail of it. */
+export async function createStainReference(image: Blob, name: string): Promise<StainReference> {
+  const bitmap = await createImageBitmap(image)
+  let measured: [HTMLCanvasElement, ImageData]
+  try {
+    measured = readPixels(bitmap, MEASURE_DIMENSION)
+  } finally {
+    bitmap.close()
+  }
+  const [canvas, imageData] = measured
+  const stats = labStats(toLab(imageData.data))
+  const scale = THUMBNAIL_DIMENSION / Math.max(canvas.width, canvas.height)
+  const [thumbnail, thumbnailCtx] = createCanvas(Math.max(1, Math.round(canvas.width * scale)), Math.max(1, Math.round(canvas.height * scale)))
+  thumbnailCtx.drawImage(canvas, 0, 0, thumbnail.width, thumbnail.height)
+  return { ...stats, name, thumbnail: thumbnail.toDataURL("image/jpeg", 0.8), createdAt: new Date().toISOString() }
+}
+
+/** Maps RGBA pixels in place from the `source` L*a*b* distribution to the `reference` one. */
+function transferPixels(data: Uint8ClampedArray, source: StainStats, reference: StainStats) {
+  const gain = source.std.map((std, c) => (std > 1e-3 ? reference.std[c] / std : 1))
+  const pixels = data.length / 4
+  for (let i = 0; i < pixels; i++) {
+    const r = SRGB_TO_LINEAR[data[i * 4]]
+    const g = SRGB_TO_LINEAR[data[i * 4 + 1]]
+    const bl = SRGB_TO_LINEAR[data[i * 4 + 2]]
+    const fxIn = labForward((0.4124 * r + 0.3576 * g + 0.1805 * bl) / XN)
+    const fyIn = labForward(0.2126 * r + 0.7152 * g + 0.0722 * bl)
+    const fzIn = labForward((0.0193 * r + 0.1192 * g + 0.9505 * bl) / ZN)
+
+    const l = (116 * fyIn - 16 - source.mean[0]) * gain[0] + reference.mean[0]
+    const a = (500 * (fxIn - fyIn) - source.mean[1]) * gain[1] + reference.mean[1]
+    const b = (200 * (fyIn - fzIn) - source.mean[2]) * gain[2] + reference.mean[2]
+    const fy = (l + 16) / 116
+    const x = labInverse(fy + a / 500) * XN
+    const y = labInverse(fy)
+    const z = labInverse(fy - b / 200) * ZN
+    data[i * 4] = linearToSrgb(3.2406 * x - 1.5372 * y - 0.4986 * z)
+    data[i * 4 + 1] = linearToSrgb(-0.9689 * x + 1.8758 * y + 0.0415 * z)
+    data[i * 4 + 2] = linearToSrgb(0.0557 * x - 0.204 * y + 1.057 * z)
+  }
+}
+
+/**
+ * Reinhard colour transfer: shifts and scales each L*a*b* channel of the
+ * image so its stained pixels have the reference's mean and spread. Returns
+ * the image re-encoded as `type`. The image's own statistics are measured on
+ * a downscaled copy and the transfer is applied one row band at a time, so
+ * stitched scans never need a full-size pixel or L*a*b* buffer.
+ */
+export async function normalizeStain(image: Blob, reference: StainStats, type = "image/jpeg"): Promise<Blob> {
+  const bitmap = await createImageBitmap(image)
+  try {
+    const source = labStats(toLab(readPixels(bitmap, MEASURE_DIMENSION)[1].data))
+    const [canvas, ctx] = createCanvas(bitmap.width, bitmap.height)
+    ctx.drawImage(bitmap, 0, 0)
+    const bandRows = Math.max(1, Math.floor(BAND_PIXELS / canvas.width))
+    for (let top = 0; top < canvas.height; top += bandRows) {
+      const band = ctx.getImageData(0, top, canvas.width, Math.min(bandRows, canvas.height - top))
+      transferPixels(band.data, source, reference)
+      ctx.putImageData(band, 0, top)
+    }
+
+    const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, type, 0.95))
+    if (!blob) throw new Error("Stain-normalized image could not be encoded")
+    return blob
+  } finally {
+    bitmap.close()
+  }
+}
+
+/** Applies `normalizeStain` to a prepared upload, keeping its format and geometry. */
+export async function normalizePrepared(prepared: PreparedImage, reference: StainStats): Promise<PreparedImage> {
+  const type = prepared.blob.type === "image/png" ? "image/png" : "image/jpeg"
+  const blob = await normalizeStain(prepared.blob, reference, type)
+  const filename = type === "image/jpeg" ? prepared.filename.replace(/\.[^.]+$/, "") + ".jpg" : prepared.filename
+  return { ...prepared, blob, filename }
+}
+
+export function loadStainReference(): StainReference | null {
+  try {
+    const stored = JSON.parse(localStorage.getItem(REFERENCE_KEY) ?? "null")
+    return Array.isArray(stored?.mean) && Array.isArray(stored?.std) ? stored : null
+  } catch {
+    return null
+  }
+}
+
+export function saveStainReference(reference: StainReference | null) {
+  try {
+    if (reference) localStorage.setItem(REFERENCE_KEY, JSON.stringify(reference))
+    else localStorage.removeItem(REFERENCE_KEY)
+  } catch {
+    // localStorage may be blocked
+  }
+}
@@ -0,0 +1,171 @@
+import { createCanvas, renderDetectionsImage } from "@/lib/canvas"
+import { requestDetection, type Detection, type DetectionResponse } from "@/lib/detection"
+
+export interface TilingOptions {
+  /** Edge length of the square tiles sent to the model, in source pixels */
+  tileSize: number
+  /** Pixels shared by neighbouring tiles; should exceed the length of a larva */
+  overlap: number
+}
+
+export interface Tile {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export const DEFAULT_TILING: TilingOptions = { tileSize: 1024, overlap: 256 }
+
+// Boxes from neighbouring tiles are the same object above either ratio
+const MERGE_IOU = 0.45
+// A larva cut by a tile edge yields a partial box mostly inside the full one from the next tile
+const MERGE_CONTAINMENT = 0.7
+// Tiles POSTed to /api/detect at the same time for one image
+const TILE_CONCURRENCY = 2
+// Longest side of the stitched overlay image kept in `annotated_image`
+const OVERLAY_MAX_DIMENSION = 2048
+
+function axisStarts(length: number, tileSize: number, overlap: number): number[] {
+  if (length <= tileSize) return [0]
+  const step = Math.max(1, tileSize - overlap)
+  const starts: number[] = []
+  for (let start = 0; start + tileSize < length; start += step) {
+    starts.push(start)
+  }
+  // Last tile is snapped to the edge so it keeps the full tile size
+  starts.push(length - tileSize)
+  return starts
+}
+
+/** Overlapping tiles covering a `width` × `height` image, row by row. */
+export function planTiles(width: number, height: number, { tileSize, overlap }: TilingOptions): Tile[] {
+  const tiles: Tile[] = []
+  for (const y of axisStarts(height, tileSize, overlap)) {
+    for (const x of axisStarts(width, tileSize, overlap)) {
+      tiles.push({ x, y, width: Math.min(tileSize, width), height: Math.min(tileSize, height) })
+    }
+  }
+  return tiles
+}
+
+function area(bbox: Detection["bbox"]): number {
+  return Math.max(0, bbox.x2 - bbox.x1) * Math.max(0, bbox.y2 - bbox.y1)
+}
+
+function intersection(a: Detection["bbox"], b: Detection["bbox"]): number {
+  const width = Math.min(a.x2, b.x2) - Math.max(a.x1, b.x1)
+  const height = Math.min(a.y2, b.y2) - Math.max(a.y1, b.y1)
+  return width > 0 && height > 0 ? width * height : 0
+}
+
+export function iou(a: Detection["bbox"], b: Detection["bbox"]): number {
+  const overlap = intersection(a, b)
+  const union = area(a) + area(b) - overlap
+  return union > 0 ? overlap / union : 0
+}
+
+/**
+ * Greedy non-maximum suppression per class. Besides IoU, a box mostly
+ * contained in a stronger one is dropped, which catches larvae cut at a
+ * tile seam.
+ */
+export function mergeDetections(detections: Detection[]): Detection[] {
+  const sorted = [...detections].sort((a, b) => b.confidence - a.confidence)
+  const kept: Detection[] = []
+  for (const candidate of sorted) {
+    const duplicate = kept.some((existing) => {
+      if (existing.class !== candidate.class) return false
+      const overlap = intersection(existing.bbox, candidate.bbox)
+      const smaller = Math.min(area(existing.bbox), area(candidate.bbox))
+      return iou(existing.bbox, candidate.bbox) >= MERGE_IOU || (smaller > 0 && overlap / smaller >= MERGE_CONTAINMENT)
+    })
+    if (!duplicate) kept.push(candidate)
+  }
+  return kept.map((detection, index) => ({ ...detection, id: index + 1 }))
+}
+
+async function detectTile(bitmap: ImageBitmap, tile: Tile, confidence: number, name: string, apiUrl?: string): Promise<Detection[]> {
+  const [canvas, ctx] = createCanvas(tile.width, tile.height)
+  ctx.drawImage(bitmap, tile.x, tile.y, tile.width, tile.height, 0, 0, tile.width, tile.height)
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/jpeg", 0.95))
+  if (!blob) throw new Error("Could not encode image tile")
+
+  const response = await requestDetection(blob, confidence, `${name}_x${tile.x}_y${tile.y}.jpg`, apiUrl)
+  // Scale back in case the API reports a different size than the tile it received
+  const sx = tile.width / response.image_info.width
+  const sy = tile.height / response.image_info.height
+  return response.detections.map((detection) => ({
+    ...detection,
+    bbox: {
+      x1: tile.x + detection.bbox.x1 * sx,
+      y1: tile.y + detection.bbox.y1 * sy,
+      x2: tile.x + detection.bbox.x2 * sx,
+      y2: tile.y + detection.bbox.y2 * sy,
+    },
+  }))
+}
+
+/**
+ * Splits a large image into overlapping tiles, detects each one, maps the
+ * boxes back to full-image coordinates and merges duplicates across seams.
+ * Resolves with a single `DetectionResponse` for the whole image; images
+ * that fit in one tile are sent as they are. `apiUrl` defaults to the
+ * build's detection API, like `requestDetection`.
+ */
+export async function detectTiled(
+  image: Blob,
+  filename: string,
+  confidence: number,
+  options: TilingOptions,
+  onProgress?: (done: number, total: number) => void,
+  apiUrl?: string,
+): Promise<DetectionResponse> {
+  const bitmap = await createImageBitmap(image)
+  try {
+    const { width, height } = bitmap
+    const tiles = planTiles(width, height, options)
+    if (tiles.length === 1) {
+      return await requestDetection(image, confidence, filename, apiUrl)
+    }
+    const name = filename.replace(/\.[^.]+$/, "")
+    const found: Detection[] = []
+    let done = 0
+    onProgress?.(0, tiles.length)
+
+    for (let i = 0; i < tiles.length; i += TILE_CONCURRENCY) {
+      const chunk = tiles.slice(i, i + TILE_CONCURRENCY)
+      const results = await Promise.all(chunk.map((tile) => detectTile(bitmap, tile, confidence, name, apiUrl)))
+      results.forEach((detections) => found.push(...detections))
+      done += chunk.length
+      onProgress?.(done, tiles.length)
+    }
+
+    const detections = mergeDetections(found)
+    const totalConfidence = detections.reduce((sum, detection) => sum + detection.confidence, 0)
+    const overlayScale = Math.min(1, OVERLAY_MAX_DIMENSION / Math.max(width, height))
+    const sourceUrl = URL.createObjectURL(image)
+    let annotated_image: string
+    try {
+      annotated_image = await renderDetectionsImage(sourceUrl, width, height, detections, overlayScale)
+    } finally {
+      URL.revokeObjectURL(sourceUrl)
+    }
+
+    return {
+      success: true,
+      timestamp: new Date().toISOString(),
+      image_info: { width, height, filename },
+      detection_stats: {
+        total_count: detections.length,
+        average_confidence: detections.length > 0 ? totalConfidence / detections.length : 0,
+        confidence_threshold: confidence,
+      },
+      detections,
+      annotated_image,
+      tiling: { tile_size: options.tileSize, overlap: options.overlap, tile_count: tiles.length },
+    }
+  } finally {
+    bitmap.close()
+  }
+}
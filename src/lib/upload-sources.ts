@@ -0,0 +1,66 @@
+import { ACCEPTED_IMAGE_TYPES } from "@/lib/preprocess"
+import { DECODABLE_EXTENSIONS, DECODABLE_IMAGE_TYPES } from "@/lib/image-decode"
+
+const IMAGE_EXTENSIONS = [".jpg", ".jpeg", ".png", ...DECODABLE_EXTENSIONS]
+
+/**
+ * Whether a file found while walking a folder looks like an image we can
+ * take. Anything else (sidecar metadata, thumbnails databases) is skipped
+ * silently; loose files the user picked are validated with a message instead.
+ */
+export function isImageCandidate(file: File): boolean {
+  if (file.name.startsWith(".")) return false
+  if (ACCEPTED_IMAGE_TYPES.includes(file.type) || DECODABLE_IMAGE_TYPES.includes(file.type)) return true
+  const name = file.name.toLowerCase()
+  return IMAGE_EXTENSIONS.some((extension) => name.endsWith(extension))
+}
+
+function entryFile(entry: FileSystemFileEntry): Promise<File> {
+  return new Promise((resolve, reject) => entry.file(resolve, reject))
+}
+
+async function readDirectory(directory: FileSystemDirectoryEntry): Promise<File[]> {
+  const reader = directory.createReader()
+  const entries: FileSystemEntry[] = []
+  // readEntries returns at most ~100 entries per call; keep reading until it comes back empty
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject))
+    if (batch.length === 0) break
+    entries.push(...batch)
+  }
+  const nested = await Promise.all(entries.map(collectEntry))
+  return nested.flat().filter(isImageCandidate)
+}
+
+function collectEntry(entry: FileSystemEntry): Promise<File[]> {
+  if (entry.isDirectory) return readDirectory(entry as FileSystemDirectoryEntry)
+  return entryFile(entry as FileSystemFileEntry).then((file) => [file])
+}
+
+/** Files from a drop, walking any dropped folders recursively. */
+export async function collectDroppedFiles(dataTransfer: DataTransfer): Promise<File[]> {
+  // Entries must be taken synchronously, before the drop event's data store is cleared
+  const entries = Array.from(dataTransfer.items)
+    .filter((item) => item.kind === "file")
+    .map((item) => item.webkitGetAsEntry())
+  if (entries.some((entry) => entry === null)) return Array.from(dataTransfer.files)
+  const nested = await Promise.all(entries.map((entry) => collectEntry(entry as FileSystemEntry)))
+  return nested.flat()
+}
+
+/**
+ * Image files pasted from the clipboard, e.g. a frame copied from microscope
+ * capture software. Clipboard images arrive as "image.png", so they get a
+ * timestamped name instead.
+ */
+export function collectPastedFiles(clipboardData: DataTransfer): File[] {
+  const stamp = new Date().toISOString().replace(/[:.]/g, "-")
+  return Array.from(clipboardData.items)
+    .filter((item) => item.kind === "file")
+    .flatMap((item) => item.getAsFile() ?? [])
+    .map((file, index) => {
+      if (file.name && file.name !== "image.png") return file
+      const extension = file.type.split("/")[1] ?? "png"
+      return new File([file], `pasted-${stamp}${index > 0 ? `-${index + 1}` : ""}.${extension}`, { type: file.type })
+    })
+}